@@ -12,6 +12,8 @@ const env = new Environment({
 });
 
 function main() {
+  env.assertValid();
+
   if (env.get('NODE_ENV').unwrapOr('development') === 'production') {
     console.log('Running in production mode');
   }
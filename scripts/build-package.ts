@@ -20,10 +20,12 @@ const copiedFields = [
 type CopiedField = (typeof copiedFields)[number] & PackageJsonField;
 
 function createPackageJson(pkg: PackageJson): Pick<PackageJson, CopiedField> & {
+  bin: { [name: string]: string };
   main: string;
   types: string;
 } {
   const packageJson: { [key: string]: unknown } = {
+    bin: { 'ts-env': './cli.js' },
     exports: './index.js',
     main: './index.js',
     type: 'commonjs',
@@ -37,6 +39,7 @@ function createPackageJson(pkg: PackageJson): Pick<PackageJson, CopiedField> & {
   }
 
   return packageJson as Pick<PackageJson, CopiedField> & {
+    bin: { [name: string]: string };
     main: string;
     types: string;
   };
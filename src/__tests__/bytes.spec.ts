@@ -0,0 +1,85 @@
+import { parseBytes } from '../bytes';
+import { EnvironmentErrorReason } from '../types';
+
+describe('parseBytes()', () => {
+  it('should parse byte sizes with SI and IEC suffixes', () => {
+    const cases: Array<[string, bigint]> = [
+      ['512', 512n],
+      ['25MB', 25_000_000n],
+      ['25 MB', 25_000_000n],
+      ['2GiB', 2_147_483_648n],
+      ['1.5kB', 1_500n],
+      ['1.5KiB', 1_536n],
+      ['8EiB', 9_223_372_036_854_775_808n],
+    ];
+
+    for (const [raw, bytes] of cases) {
+      expect(parseBytes(raw, 'B')._unwrap()).toBe(bytes);
+    }
+  });
+
+  it('should use the unit for sizes without a suffix', () => {
+    expect(parseBytes('4', 'KiB')._unwrap()).toBe(4_096n);
+  });
+
+  it('should return an error for invalid byte sizes', () => {
+    const cases: Array<[string, EnvironmentErrorReason, string]> = [
+      [
+        'lots',
+        EnvironmentErrorReason.NotAByteSize,
+        'the value is not a valid byte size (e.g. 512, 25MB or 2GiB)',
+      ],
+      [
+        '-1',
+        EnvironmentErrorReason.NotAByteSize,
+        'the value is not a valid byte size (e.g. 512, 25MB or 2GiB)',
+      ],
+      [
+        '25KB',
+        EnvironmentErrorReason.AmbiguousUnit,
+        'the unit KB is ambiguous, use kB or KiB',
+      ],
+      [
+        '25M',
+        EnvironmentErrorReason.AmbiguousUnit,
+        'the unit M is ambiguous, use MB or MiB',
+      ],
+      [
+        '25Mb',
+        EnvironmentErrorReason.AmbiguousUnit,
+        'the unit Mb is ambiguous, use MB or MiB',
+      ],
+      [
+        '25b',
+        EnvironmentErrorReason.UnknownUnit,
+        'the unit b is not a known byte unit',
+      ],
+      [
+        '25constructor',
+        EnvironmentErrorReason.UnknownUnit,
+        'the unit constructor is not a known byte unit',
+      ],
+      [
+        '0.5B',
+        EnvironmentErrorReason.NotAWholeNumberOfBytes,
+        'the value is not a whole number of bytes',
+      ],
+      [
+        '1.0001kB',
+        EnvironmentErrorReason.NotAWholeNumberOfBytes,
+        'the value is not a whole number of bytes',
+      ],
+    ];
+
+    for (const [raw, reason, message] of cases) {
+      expect(parseBytes(raw, 'B').inner()).toMatchObject({ message, reason });
+    }
+  });
+
+  it('should include the allowed units in the details', () => {
+    expect(parseBytes('25KB', 'B').inner().details).toStrictEqual({
+      allowed: ['kB', 'KiB'],
+      unit: 'KB',
+    });
+  });
+});
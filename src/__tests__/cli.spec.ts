@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+
+import type { CliIo } from '../cli';
+
+import { CliExitCode, run } from '../cli';
+import { Environment } from '../environment';
+import { group } from '../group';
+import { numberVar, stringVar } from '../variable';
+import { createTempDir } from './temp-dir';
+
+const config = {
+  HOST: stringVar(),
+  http: group('HTTP_', { port: numberVar({ format: 'integer' }) }),
+};
+
+describe('run()', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = createTempDir({ 'env.js': '' });
+  });
+
+  function createIo(exports: unknown, env: CliIo['env'] = {}) {
+    const output = { stderr: '', stdout: '' };
+    const io: CliIo = {
+      cwd,
+      env,
+      require: vi.fn((id: string) => {
+        if (
+          id === path.join(cwd, 'env.js') ||
+          id === path.join(cwd, 'env.ts')
+        ) {
+          return exports;
+        }
+
+        throw new Error(`Cannot find module '${id}'`);
+      }),
+      stderr: {
+        write: (text: string) => {
+          output.stderr += text;
+          return true;
+        },
+      },
+      stdout: {
+        write: (text: string) => {
+          output.stdout += text;
+          return true;
+        },
+      },
+    };
+
+    return { io, output };
+  }
+
+  it('should succeed when the exported environment is valid', () => {
+    const env = { HOST: 'localhost', HTTP_PORT: '80' };
+    const { io, output } = createIo({ env: new Environment(config, env) });
+
+    expect(run(['check', '--config', 'env.js'], io)).toBe(CliExitCode.Success);
+    expect(output.stdout).toBe('The environment is valid\n');
+  });
+
+  it('should print the errors grouped by type', () => {
+    const { io, output } = createIo({
+      default: new Environment(config, { HTTP_PORT: 'abc' }),
+    });
+
+    expect(run(['check', '-c', 'env.js'], io)).toBe(CliExitCode.Failure);
+    expect(output.stdout).toMatch(
+      /^The environment has 2 errors\n\nnot-found-error \(1\)\n {2}KEY {3}MESSAGE\n {2}HOST {2}.+\n\nparse-error \(1\)\n {2}KEY {8}MESSAGE\n {2}HTTP_PORT {2}.+\n$/,
+    );
+  });
+
+  it('should print the errors as JSON', () => {
+    const { io, output } = createIo(config);
+
+    expect(run(['check', '-c', 'env.js', '--format', 'json'], io)).toBe(
+      CliExitCode.Failure,
+    );
+
+    const printed = JSON.parse(output.stdout);
+
+    expect(printed.valid).toBe(false);
+    expect(Object.keys(printed.errors)).toStrictEqual(['not-found-error']);
+    expect(
+      printed.errors['not-found-error'].map((e: { key: string }) => e.key),
+    ).toStrictEqual(['HOST', 'HTTP_PORT']);
+  });
+
+  it('should load env files without overriding the environment', () => {
+    fs.writeFileSync(
+      path.join(cwd, '.env'),
+      'HOST=from-file\nHTTP_PORT=8080\nAPP_HOST=x\nAPP_HTTP_PORT=1',
+    );
+
+    const env = { HOST: 'from-env' };
+    const { io } = createIo({ config }, env);
+
+    expect(run(['check', '-c', 'env.js', '-e', '.env'], io)).toBe(
+      CliExitCode.Success,
+    );
+    expect(env).toStrictEqual({
+      APP_HOST: 'x',
+      APP_HTTP_PORT: '1',
+      HOST: 'from-env',
+      HTTP_PORT: '8080',
+    });
+    expect(
+      run(['check', '-c', 'env.js', '--prefix', 'APP_', '-e', '.env'], io),
+    ).toBe(CliExitCode.Success);
+  });
+
+  it('should report the errors of modules that validate when loaded', () => {
+    const { io, output } = createIo(undefined);
+
+    io.require = () => new Environment(config, {}).assertValid();
+
+    expect(run(['check', '-c', 'env.js', '--format', 'json'], io)).toBe(
+      CliExitCode.Failure,
+    );
+    expect(JSON.parse(output.stdout).errors['not-found-error']).toHaveLength(2);
+  });
+
+  it('should register tsx to load TypeScript modules', () => {
+    fs.writeFileSync(path.join(cwd, 'env.ts'), '');
+
+    const { io, output } = createIo({ config });
+
+    expect(run(['check', '-c', 'env.ts'], io)).toBe(CliExitCode.UsageError);
+    expect(output.stderr).toContain(
+      'Loading the TypeScript module env.ts requires tsx to be installed',
+    );
+
+    const load = io.require;
+
+    io.require = vi.fn((id: string) =>
+      id === 'tsx/cjs' ? undefined : load(id),
+    );
+
+    expect(run(['check', '-c', 'env.ts'], io)).toBe(CliExitCode.Failure);
+    expect(io.require).toHaveBeenCalledWith('tsx/cjs');
+  });
+
+  it('should choose between several environments with --export', () => {
+    const { io, output } = createIo({
+      a: new Environment(config, {}),
+      b: new Environment(config, { HOST: 'h', HTTP_PORT: '1' }),
+    });
+
+    expect(run(['check', '-c', 'env.js'], io)).toBe(CliExitCode.UsageError);
+    expect(output.stderr).toContain('exports several environments (a, b)');
+    expect(run(['check', '-c', 'env.js', '--export', 'b'], io)).toBe(
+      CliExitCode.Success,
+    );
+  });
+
+  it.each([
+    [[], 'Expected a command'],
+    [['lint'], 'Unknown command lint'],
+    [['check'], 'Expected a config module with --config'],
+    [['check', '-c', 'env.js', '--format', 'xml'], 'Unknown format xml'],
+    [
+      ['check', '-c', 'missing.js'],
+      'The config module missing.js does not exist',
+    ],
+    [
+      ['check', '-c', 'env.js', '-e', '.env.missing'],
+      'The env file .env.missing does not exist',
+    ],
+    [['check', '-c', 'env.js', '--unknown'], "Unknown option '--unknown'"],
+  ])('should fail with a usage error for %j', (argv, message) => {
+    const { io, output } = createIo({ config });
+
+    expect(run(argv, io)).toBe(CliExitCode.UsageError);
+    expect(output.stderr).toContain(message);
+  });
+});
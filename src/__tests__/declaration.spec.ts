@@ -0,0 +1,79 @@
+import { generateTypeDeclarations } from '../declaration';
+import { group } from '../group';
+import { enumVar, numberVar, stringVar } from '../variable';
+
+enum Mode {
+  Fast,
+  Safe,
+}
+
+describe('generateTypeDeclarations()', () => {
+  const config = {
+    API_TOKEN: stringVar({ default: 'secret', sensitive: true }),
+    LOG_LEVEL: enumVar(['debug', 'info'] as const, {
+      default: 'info',
+      description: 'The level of the logs',
+    }),
+    MODE: enumVar(Mode),
+    PORT: numberVar({ default: 80, deprecated: 'use http.port instead' }),
+    http: group('HTTP_', {
+      host: stringVar({ description: 'The host to bind */ to' }),
+      'read-timeout': numberVar({ requiredWhen: { key: 'http.host' } }),
+    }),
+  };
+
+  it('should augment NodeJS.ProcessEnv with the variables', () => {
+    expect(generateTypeDeclarations(config)).toBe(
+      [
+        '// This file is generated from the environment configuration, do not edit it',
+        '',
+        'declare global {',
+        '  namespace NodeJS {',
+        '    interface ProcessEnv {',
+        '      API_TOKEN?: string;',
+        '',
+        '      /**',
+        '       * The level of the logs',
+        '       *',
+        '       * @default "info"',
+        '       */',
+        '      LOG_LEVEL?: "debug" | "info";',
+        '',
+        '      MODE: "Fast" | "Safe";',
+        '',
+        '      /**',
+        '       * @default "80"',
+        '       * @deprecated use http.port instead',
+        '       */',
+        '      PORT?: string;',
+        '',
+        '      /**',
+        '       * The host to bind *\\/ to',
+        '       */',
+        '      HTTP_HOST: string;',
+        '',
+        '      "HTTP_READ-TIMEOUT"?: string;',
+        '    }',
+        '  }',
+        '}',
+        '',
+        'export {};',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should augment ImportMetaEnv when asked to', () => {
+    const declarations = generateTypeDeclarations(
+      { PORT: numberVar() },
+      { importMeta: true, prefix: 'VITE_' },
+    );
+
+    expect(declarations).toContain(
+      '    interface ProcessEnv {\n      VITE_PORT: string;\n    }',
+    );
+    expect(declarations).toContain(
+      '  interface ImportMetaEnv {\n    VITE_PORT: string;\n  }',
+    );
+  });
+});
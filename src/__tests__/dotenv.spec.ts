@@ -0,0 +1,84 @@
+import { loadDotenvFiles, parseDotenv } from '../dotenv';
+import { EnvironmentErrorType } from '../types';
+import { createTempDir } from './temp-dir';
+
+describe('parseDotenv()', () => {
+  it('should parse simple key value pairs', () => {
+    const parsed = parseDotenv('A=1\nB = two \n\nC=');
+
+    expect(parsed._unwrap()).toStrictEqual({ A: '1', B: 'two', C: '' });
+  });
+
+  it('should ignore comments and export prefixes', () => {
+    const parsed = parseDotenv(
+      '# a comment\nexport A=1 # inline comment\nB=a#b\n  # indented comment',
+    );
+
+    expect(parsed._unwrap()).toStrictEqual({ A: '1', B: 'a#b' });
+  });
+
+  it('should take single quoted values literally', () => {
+    const parsed = parseDotenv("A='a \\n # b'");
+
+    expect(parsed._unwrap()).toStrictEqual({ A: 'a \\n # b' });
+  });
+
+  it('should unescape double quoted values', () => {
+    const parsed = parseDotenv('A="a\\nb\\t\\"c\\" \\\\ \\d" # comment');
+
+    expect(parsed._unwrap()).toStrictEqual({ A: 'a\nb\t"c" \\ \\d' });
+  });
+
+  it('should support multiline double quoted values', () => {
+    const parsed = parseDotenv('A="line 1\nline 2\n  line 3"\nB=b');
+
+    expect(parsed._unwrap()).toStrictEqual({
+      A: 'line 1\nline 2\n  line 3',
+      B: 'b',
+    });
+  });
+
+  it('should support multiline backtick quoted values', () => {
+    const parsed = parseDotenv('A=`"a"\n\'b\'`');
+
+    expect(parsed._unwrap()).toStrictEqual({ A: '"a"\n\'b\'' });
+  });
+
+  it('should return an error with the line of an unterminated value', () => {
+    const parsed = parseDotenv('A=1\nB="unterminated\nC=3', '.env.local');
+
+    if (!parsed.isErr()) {
+      throw new Error('Expected an error');
+    }
+
+    expect(parsed.inner()).toMatchObject({
+      file: '.env.local',
+      key: 'B',
+      line: 2,
+      type: EnvironmentErrorType.FileParseError,
+    });
+  });
+
+  it('should return an error for an invalid line', () => {
+    const parsed = parseDotenv('A=1\nnot a pair');
+
+    if (!parsed.isErr()) {
+      throw new Error('Expected an error');
+    }
+
+    expect(parsed.inner()).toMatchObject({
+      line: 2,
+      message: 'Error parsing .env:2: expected a line like KEY=value',
+    });
+  });
+});
+
+describe('loadDotenvFiles()', () => {
+  it('should merge files in order and skip missing files', () => {
+    const dir = createTempDir({ '.env': 'A=1\nB=2', '.env.local': 'B=3' });
+
+    const loaded = loadDotenvFiles(['.env', '.env.local', '.env.missing'], dir);
+
+    expect(loaded._unwrap()).toStrictEqual({ A: '1', B: '3' });
+  });
+});
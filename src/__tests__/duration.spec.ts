@@ -0,0 +1,53 @@
+import { parseDuration } from '../duration';
+
+describe('parseDuration()', () => {
+  it('should parse unit-suffixed and compound durations', () => {
+    const cases: Array<[string, number]> = [
+      ['500ms', 500],
+      ['30s', 30_000],
+      ['1m30s', 90_000],
+      ['1h 30m', 5_400_000],
+      ['1.5d', 129_600_000],
+      ['2w', 1_209_600_000],
+      [' 10m ', 600_000],
+      ['1d2h3m4s5ms', 93_784_005],
+    ];
+
+    for (const [raw, milliseconds] of cases) {
+      expect(parseDuration(raw)).toBe(milliseconds);
+    }
+  });
+
+  it('should parse ISO 8601 durations', () => {
+    const cases: Array<[string, number]> = [
+      ['PT5M', 300_000],
+      ['PT1H30M', 5_400_000],
+      ['P1DT12H', 129_600_000],
+      ['PT0,5S', 500],
+      ['p1w', 604_800_000],
+    ];
+
+    for (const [raw, milliseconds] of cases) {
+      expect(parseDuration(raw)).toBe(milliseconds);
+    }
+  });
+
+  it('should return undefined for invalid durations', () => {
+    for (const raw of [
+      '',
+      '30',
+      '30x',
+      'm30',
+      '1m30',
+      'P',
+      'PT',
+      'P1DT',
+      'P1Y',
+      '30s1h',
+      '1m1m',
+      '1s 500ms 1s',
+    ]) {
+      expect(parseDuration(raw)).toBeUndefined();
+    }
+  });
+});
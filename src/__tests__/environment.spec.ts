@@ -1,14 +1,30 @@
-import { Duration, type Result } from '@ellefe/ts-core';
+import { Duration, type Result, err, ok } from '@ellefe/ts-core';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { inspect } from 'util';
 
 import { Environment } from '../environment';
-import { EnvironmentErrorType } from '../types';
+import { EnvironmentError, EnvironmentValidationError } from '../error';
+import { group } from '../group';
+import { EnvironmentErrorReason, EnvironmentErrorType } from '../types';
 import {
   booleanVar,
+  bytesVar,
+  cidrVar,
+  customVar,
   durationVar,
   enumVar,
+  hostPortVar,
+  hostVar,
+  jsonVar,
+  listVar,
   numberVar,
+  portVar,
   stringVar,
+  urlVar,
 } from '../variable';
+import { createTempDir } from './temp-dir';
 
 enum Enum {
   A = 'a',
@@ -16,17 +32,47 @@ enum Enum {
   C = 'c',
 }
 
+function parseList(raw: string): Result<string[], string> {
+  const items = raw.split(';');
+
+  return items.includes('') ? err('the list has an empty item') : ok(items);
+}
+
 function getEnv(store: { [key: string]: string | undefined } = {}) {
   return new Environment(
     {
       BOOLEAN_DEFAULT: booleanVar({ default: true }),
       BOOLEAN_REQUIRED: booleanVar(),
+      CUSTOM_DEFAULT: customVar({
+        default: ['a'],
+        parse: parseList,
+      }),
+      CUSTOM_REQUIRED: customVar({ parse: parseList }),
       DURATION_DEFAULT: durationVar('seconds', {
         default: Duration.from(30, 'seconds'),
       }),
       DURATION_REQUIRED: durationVar('seconds'),
       ENUM_DEFAULT: enumVar(Enum, { default: Enum.A }),
       ENUM_REQUIRED: enumVar(Enum),
+      JSON_ANY: jsonVar(),
+      JSON_SHAPE: jsonVar({
+        shape: {
+          enabled: booleanVar(),
+          limits: jsonVar({
+            shape: { burst: numberVar({ default: 10 }), rps: numberVar() },
+          }),
+          mode: enumVar(Enum),
+          tags: listVar(stringVar(), { unique: true }),
+        },
+      }),
+      JSON_VALIDATED: jsonVar({
+        validate: (value) =>
+          Array.isArray(value) ? ok(value as number[]) : err('not an array'),
+      }),
+      LIST_BOUNDED: listVar(stringVar(), { maxItems: 3, minItems: 1 }),
+      LIST_DEFAULT: listVar(stringVar(), { default: ['a', 'b'] }),
+      LIST_ENUM: listVar(enumVar(Enum), { separator: ' ' }),
+      LIST_UNIQUE: listVar(numberVar({ format: 'integer' }), { unique: true }),
       NUMBER_DEFAULT: numberVar({ default: 42 }),
       NUMBER_INTEGER: numberVar({ format: 'integer' }),
       NUMBER_MAX: numberVar({ max: 10 }),
@@ -35,6 +81,11 @@ function getEnv(store: { [key: string]: string | undefined } = {}) {
       STRING_DEFAULT: stringVar({ default: 'default' }),
       STRING_PATTERN: stringVar({ pattern: 'abc' }),
       STRING_REQUIRED: stringVar(),
+      URL_CREDENTIALS: urlVar({ allowCredentials: true, requirePort: true }),
+      URL_REQUIRED: urlVar({
+        protocols: ['https', 'postgres'],
+        stripTrailingSlash: true,
+      }),
     },
     store,
   );
@@ -212,12 +263,1483 @@ describe('class Envionment', () => {
       });
 
       it('should return an error if the duration value is not a valid duration', () => {
-        const env = getEnv({ DURATION_REQUIRED: 'not a duration' });
+        for (const raw of ['not a duration', '', ' ', '30s1h']) {
+          const env = getEnv({ DURATION_REQUIRED: raw });
 
-        expect(getErr(env.get('DURATION_REQUIRED')).type).toBe(
-          EnvironmentErrorType.VariableParseError,
+          expect(getErr(env.get('DURATION_REQUIRED')).type).toBe(
+            EnvironmentErrorType.VariableParseError,
+          );
+        }
+      });
+
+      it('should return the value of a duration with units', () => {
+        for (const [raw, seconds] of [
+          ['1m30s', 90],
+          ['500ms', 0.5],
+          ['PT5M', 300],
+        ] as const) {
+          const env = getEnv({ DURATION_REQUIRED: raw });
+
+          expect(env.get('DURATION_REQUIRED')._unwrap().seconds()).toBe(
+            seconds,
+          );
+        }
+      });
+
+      it('should return an error if the duration value is out of bounds', () => {
+        const config = {
+          TIMEOUT: durationVar('seconds', {
+            max: Duration.from(1, 'minutes'),
+            min: Duration.from(1, 'seconds'),
+          }),
+        };
+
+        expect(
+          getErr(new Environment(config, { TIMEOUT: '500ms' }).get('TIMEOUT'))
+            .message,
+        ).toBe(
+          'Error parsing env var TIMEOUT: the duration is shorter than the minimum',
+        );
+        expect(
+          getErr(new Environment(config, { TIMEOUT: '2m' }).get('TIMEOUT'))
+            .message,
+        ).toBe(
+          'Error parsing env var TIMEOUT: the duration is longer than the maximum',
+        );
+        expect(
+          new Environment(config, { TIMEOUT: '60' })
+            .get('TIMEOUT')
+            ._unwrap()
+            .seconds(),
+        ).toBe(60);
+      });
+    });
+
+    describe('custom', () => {
+      it('should return the value returned by the parser', () => {
+        const env = getEnv({ CUSTOM_REQUIRED: 'a;b;c' });
+
+        expect(env.get('CUSTOM_REQUIRED')._unwrap()).toStrictEqual([
+          'a',
+          'b',
+          'c',
+        ]);
+      });
+
+      it('should return the default value if the value is not set', () => {
+        const env = getEnv();
+
+        expect(env.get('CUSTOM_DEFAULT')._unwrap()).toStrictEqual(['a']);
+      });
+
+      it('should return a parse error if the parser fails', () => {
+        const env = getEnv({ CUSTOM_REQUIRED: 'a;;b' });
+        const error = getErr(env.get('CUSTOM_REQUIRED'));
+
+        expect(error.type).toBe(EnvironmentErrorType.VariableParseError);
+        expect(error.message).toBe(
+          'Error parsing env var CUSTOM_REQUIRED: the list has an empty item',
         );
       });
     });
+
+    describe('list', () => {
+      it('should return the parsed items of the list', () => {
+        const env = getEnv({ LIST_UNIQUE: '1, 2 ,3' });
+
+        expect(env.get('LIST_UNIQUE')._unwrap()).toStrictEqual([1, 2, 3]);
+      });
+
+      it('should use the separator', () => {
+        const env = getEnv({ LIST_ENUM: 'a b c' });
+
+        expect(env.get('LIST_ENUM')._unwrap()).toStrictEqual([
+          Enum.A,
+          Enum.B,
+          Enum.C,
+        ]);
+      });
+
+      it('should return the default list value if the value is not set', () => {
+        const env = getEnv();
+
+        expect(env.get('LIST_DEFAULT')._unwrap()).toStrictEqual(['a', 'b']);
+      });
+
+      it('should return an error naming the index of an invalid item', () => {
+        const env = getEnv({ LIST_UNIQUE: '1,2,x' });
+
+        expect(getErr(env.get('LIST_UNIQUE')).message).toBe(
+          'Error parsing env var LIST_UNIQUE: the item at index 2 is invalid: the value is not a number',
+        );
+      });
+
+      it('should return an error if the items are not unique', () => {
+        const env = getEnv({ LIST_UNIQUE: '1,2,1' });
+
+        expect(getErr(env.get('LIST_UNIQUE')).message).toBe(
+          'Error parsing env var LIST_UNIQUE: the item at index 2 is a duplicate',
+        );
+      });
+
+      it('should return an error if the list has too few or too many items', () => {
+        expect(
+          getErr(getEnv({ LIST_BOUNDED: '' }).get('LIST_BOUNDED')).type,
+        ).toBe(EnvironmentErrorType.VariableParseError);
+        expect(
+          getErr(getEnv({ LIST_BOUNDED: 'a,b,c,d' }).get('LIST_BOUNDED')).type,
+        ).toBe(EnvironmentErrorType.VariableParseError);
+      });
+    });
+
+    describe('json', () => {
+      it('should return the parsed JSON value', () => {
+        const env = getEnv({ JSON_ANY: '{"a":[1,2]}' });
+
+        expect(env.get('JSON_ANY')._unwrap()).toStrictEqual({ a: [1, 2] });
+      });
+
+      it('should report the position of invalid JSON', () => {
+        const env = getEnv({ JSON_ANY: '{\n  "a": }' });
+
+        expect(getErr(env.get('JSON_ANY')).message).toMatch(
+          /^Error parsing env var JSON_ANY: the value is not valid JSON at position 9 \(line 2, column 8\)/,
+        );
+      });
+
+      it('should return an error for deeply nested invalid JSON', () => {
+        const env = getEnv({ JSON_ANY: '['.repeat(20_000) });
+
+        expect(getErr(env.get('JSON_ANY')).message).toMatch(
+          /the value is not valid JSON at position 20000 /,
+        );
+      });
+
+      it('should check the value against the shape', () => {
+        const env = getEnv({
+          JSON_SHAPE:
+            '{"enabled":false,"extra":1,"limits":{"rps":5},"mode":"b","tags":["x","y"]}',
+        });
+
+        expect(env.get('JSON_SHAPE')._unwrap()).toStrictEqual({
+          enabled: false,
+          extra: 1,
+          limits: { burst: 10, rps: 5 },
+          mode: Enum.B,
+          tags: ['x', 'y'],
+        });
+      });
+
+      it('should return an error naming the invalid property', () => {
+        const cases = [
+          ['{"enabled":"yes"}', 'the property enabled is not a boolean'],
+          [
+            '{"enabled":true,"limits":{"rps":"5"}}',
+            'the property limits.rps is not a number',
+          ],
+          [
+            '{"enabled":true,"limits":{"rps":5},"mode":"d"}',
+            'the property mode is invalid: the value is not in the enum',
+          ],
+          [
+            '{"enabled":true,"limits":{"rps":5},"mode":"a"}',
+            'the property tags is missing',
+          ],
+          [
+            '{"enabled":true,"limits":{"rps":5},"mode":"a","tags":["x",1]}',
+            'the property tags[1] is not a string',
+          ],
+          [
+            '{"enabled":true,"limits":{"rps":5},"mode":"a","tags":["x","x"]}',
+            'the property tags has a duplicate item at index 1',
+          ],
+        ];
+
+        for (const [raw, message] of cases) {
+          const env = getEnv({ JSON_SHAPE: raw });
+
+          expect(getErr(env.get('JSON_SHAPE')).message).toBe(
+            `Error parsing env var JSON_SHAPE: ${message}`,
+          );
+        }
+      });
+
+      it('should run the validator', () => {
+        expect(
+          getEnv({ JSON_VALIDATED: '[1]' }).get('JSON_VALIDATED')._unwrap(),
+        ).toStrictEqual([1]);
+        expect(
+          getErr(getEnv({ JSON_VALIDATED: '{}' }).get('JSON_VALIDATED'))
+            .message,
+        ).toBe(
+          'Error parsing env var JSON_VALIDATED: the value is invalid: not an array',
+        );
+      });
+    });
+
+    describe('bytes', () => {
+      const config = {
+        CACHE_SIZE: bytesVar({ max: 2 ** 40 }),
+        MAX_UPLOAD: bytesVar({ min: 1024, unit: 'MB' }),
+      };
+
+      it('should return the number of bytes', () => {
+        const env = new Environment(config, {
+          CACHE_SIZE: '2GiB',
+          MAX_UPLOAD: '25',
+        });
+
+        expect(env.get('CACHE_SIZE')._unwrap()).toBe(2_147_483_648);
+        expect(env.get('MAX_UPLOAD')._unwrap()).toBe(25_000_000);
+      });
+
+      it('should return a bigint for large values', () => {
+        const env = new Environment({ SIZE: bytesVar() }, { SIZE: '8EiB' });
+
+        expect(env.get('SIZE')._unwrap()).toBe(9_223_372_036_854_775_808n);
+      });
+
+      it('should return an error if the value is out of bounds', () => {
+        const env = new Environment(config, {
+          CACHE_SIZE: '2TiB',
+          MAX_UPLOAD: '1kB',
+        });
+
+        expect(getErr(env.get('CACHE_SIZE')).message).toBe(
+          'Error parsing env var CACHE_SIZE: the value is greater than the maximum',
+        );
+        expect(getErr(env.get('MAX_UPLOAD')).message).toBe(
+          'Error parsing env var MAX_UPLOAD: the value is less than the minimum',
+        );
+      });
+    });
+
+    describe('network', () => {
+      const config = {
+        ALLOWED_NETWORK: cidrVar(),
+        BIND_HOST: hostVar({ families: ['ipv4', 'ipv6'] }),
+        DATABASE: hostPortVar({ defaultPort: 5432 }),
+        HOST: hostVar(),
+        PORT: portVar(),
+        REDIS: hostPortVar(),
+      };
+
+      function getErrorMessage(key: keyof typeof config, raw: string) {
+        return getErr(new Environment(config, { [key]: raw }).get(key)).message;
+      }
+
+      it('should return the parsed values', () => {
+        const env = new Environment(config, {
+          ALLOWED_NETWORK: '2001:db8::/32',
+          BIND_HOST: '0.0.0.0',
+          DATABASE: 'db.internal',
+          HOST: 'example.com',
+          PORT: '8080',
+          REDIS: '[::1]:6379',
+        });
+
+        expect(env.snapshot()).toStrictEqual({
+          ALLOWED_NETWORK: {
+            address: '2001:db8::',
+            family: 6,
+            prefixLength: 32,
+          },
+          BIND_HOST: '0.0.0.0',
+          DATABASE: { host: 'db.internal', port: 5432 },
+          HOST: 'example.com',
+          PORT: 8080,
+          REDIS: { host: '::1', port: 6379 },
+        });
+      });
+
+      it('should return specific errors for invalid values', () => {
+        const cases: Array<[keyof typeof config, string, string]> = [
+          ['PORT', '0', 'the port is not a number from 1 to 65535'],
+          ['PORT', '80.5', 'the port is not a number from 1 to 65535'],
+          [
+            'HOST',
+            'exa mple.com',
+            'the host is not a valid hostname or IP address',
+          ],
+          [
+            'BIND_HOST',
+            'localhost',
+            'the host is a hostname, expected an IPv4 address or an IPv6 address',
+          ],
+          [
+            'REDIS',
+            'cache',
+            'the value does not have a port and there is no default port',
+          ],
+          [
+            'REDIS',
+            '::1:6379:x',
+            'IPv6 addresses must be in brackets when a port is given (e.g. [::1]:8080)',
+          ],
+          ['REDIS', 'cache:99999', 'the port is not a number from 1 to 65535'],
+          [
+            'ALLOWED_NETWORK',
+            '10.0.0.0',
+            'the value is not in CIDR notation (e.g. 10.0.0.0/8)',
+          ],
+          [
+            'ALLOWED_NETWORK',
+            '10.0.0.0/33',
+            'the prefix length is not a number from 0 to 32',
+          ],
+          [
+            'ALLOWED_NETWORK',
+            '10.0.0.1/8',
+            'the address has bits set outside the prefix',
+          ],
+        ];
+
+        for (const [key, raw, reason] of cases) {
+          expect(getErrorMessage(key, raw)).toBe(
+            `Error parsing env var ${key}: ${reason}`,
+          );
+        }
+      });
+    });
+
+    describe('url', () => {
+      it('should return the parsed URL', () => {
+        const env = getEnv({ URL_REQUIRED: 'https://example.com/api/' });
+        const url = env.get('URL_REQUIRED')._unwrap();
+
+        expect(url).toBeInstanceOf(URL);
+        expect(url.href).toBe('https://example.com/api');
+      });
+
+      it('should allow credentials if configured', () => {
+        const env = getEnv({
+          URL_CREDENTIALS: 'postgres://user:pass@db:5432/app',
+        });
+
+        expect(env.get('URL_CREDENTIALS')._unwrap().password).toBe('pass');
+      });
+
+      it('should return a specific error for an invalid URL', () => {
+        const cases = [
+          ['URL_REQUIRED', 'not a url', 'the value is not a valid URL'],
+          [
+            'URL_REQUIRED',
+            'ftp://example.com',
+            'the protocol "ftp" is not one of https, postgres',
+          ],
+          ['URL_REQUIRED', 'postgres:///app', 'the URL has no host'],
+          [
+            'URL_REQUIRED',
+            'https://user@example.com',
+            'the URL must not contain credentials',
+          ],
+          ['URL_CREDENTIALS', 'https://example.com', 'the URL has no port'],
+        ] as const;
+
+        for (const [key, raw, message] of cases) {
+          const env = getEnv({ [key]: raw });
+
+          expect(getErr(env.get(key)).message).toBe(
+            `Error parsing env var ${key}: ${message}`,
+          );
+        }
+      });
+    });
+  });
+
+  describe('validate()', () => {
+    const valid = {
+      BOOLEAN_REQUIRED: 'true',
+      CUSTOM_REQUIRED: 'a;b',
+      DURATION_REQUIRED: '10',
+      ENUM_REQUIRED: 'c',
+      JSON_ANY: '{}',
+      JSON_SHAPE: '{"enabled":true,"limits":{"rps":5},"mode":"a","tags":["x"]}',
+      JSON_VALIDATED: '[]',
+      LIST_BOUNDED: 'a',
+      LIST_ENUM: 'a',
+      LIST_UNIQUE: '1',
+      NUMBER_INTEGER: '3',
+      NUMBER_MAX: '5',
+      NUMBER_MIN: '5',
+      NUMBER_REQUIRED: '7',
+      STRING_PATTERN: 'abc',
+      STRING_REQUIRED: 'value',
+      URL_CREDENTIALS: 'postgres://user:pass@db:5432/app',
+      URL_REQUIRED: 'https://example.com',
+    };
+
+    it('should return every value if the environment is valid', () => {
+      const env = getEnv(valid);
+      const snapshot = env.validate()._unwrap();
+
+      expect(snapshot).toMatchObject({
+        BOOLEAN_DEFAULT: true,
+        BOOLEAN_REQUIRED: true,
+        ENUM_REQUIRED: Enum.C,
+        NUMBER_DEFAULT: 42,
+        NUMBER_REQUIRED: 7,
+        STRING_DEFAULT: 'default',
+        STRING_REQUIRED: 'value',
+      });
+    });
+
+    it('should collect every invalid variable', () => {
+      const env = getEnv({
+        ...valid,
+        NUMBER_MAX: '11',
+        NUMBER_REQUIRED: 'not a number',
+        STRING_REQUIRED: undefined,
+      });
+
+      const error = getErr(env.validate());
+
+      expect(error).toBeInstanceOf(EnvironmentValidationError);
+      expect(error.errors.map((e) => [e.key, e.type])).toStrictEqual([
+        ['NUMBER_MAX', EnvironmentErrorType.VariableParseError],
+        ['NUMBER_REQUIRED', EnvironmentErrorType.VariableParseError],
+        ['STRING_REQUIRED', EnvironmentErrorType.VariableNotFoundError],
+      ]);
+      expect(error.message.split('\n')).toHaveLength(4);
+    });
+  });
+
+  describe('assertValid()', () => {
+    it('should throw an aggregate error if the environment is invalid', () => {
+      const env = getEnv();
+
+      expect(() => env.assertValid()).toThrow(EnvironmentValidationError);
+    });
+  });
+
+  describe('fromFiles()', () => {
+    const config = {
+      A: stringVar(),
+      B: numberVar(),
+    };
+
+    it('should prefer the store over the files by default', () => {
+      const cwd = createTempDir({ '.env': 'A=file\nB=1', '.env.local': 'B=2' });
+      const env = Environment.fromFiles(config, ['.env', '.env.local'], {
+        cwd,
+        store: { A: 'store' },
+      })._unwrap();
+
+      expect(env.snapshot()).toStrictEqual({ A: 'store', B: 2 });
+    });
+
+    it('should prefer the files over the store if requested', () => {
+      const cwd = createTempDir({ '.env': 'A=file\nB=1' });
+      const env = Environment.fromFiles(config, ['.env'], {
+        cwd,
+        precedence: 'files',
+        store: { A: 'store' },
+      })._unwrap();
+
+      expect(env.snapshot()).toStrictEqual({ A: 'file', B: 1 });
+    });
+
+    it('should return an error if a file cannot be parsed', () => {
+      const cwd = createTempDir({ '.env': 'A="unterminated' });
+      const error = getErr(Environment.fromFiles(config, ['.env'], { cwd }));
+
+      expect(error).toMatchObject({
+        file: '.env',
+        line: 1,
+        type: EnvironmentErrorType.FileParseError,
+      });
+    });
+  });
+
+  describe('interpolation', () => {
+    const config = {
+      PORT: numberVar(),
+      URL: stringVar(),
+    };
+
+    it('should expand references before parsing if enabled', () => {
+      const env = new Environment(
+        config,
+        {
+          BASE_PORT: '8000',
+          HOST: 'localhost',
+          PORT: '${BASE_PORT}',
+          URL: 'http://${HOST}:${PORT}',
+        },
+        { interpolate: true },
+      );
+
+      expect(env.get('PORT')._unwrap()).toBe(8000);
+      expect(env.get('URL')._unwrap()).toBe('http://localhost:8000');
+      expect(env.getRaw('URL')).toBe('http://${HOST}:${PORT}');
+    });
+
+    it('should not expand references by default', () => {
+      const env = new Environment(config, { URL: '${HOST}' });
+
+      expect(env.get('URL')._unwrap()).toBe('${HOST}');
+    });
+
+    it('should expand references to variables set under an alias', () => {
+      const env = new Environment(
+        { ...config, HOST: stringVar({ aliases: ['HOSTNAME'] }) },
+        { HOSTNAME: 'localhost', URL: 'http://${HOST}' },
+        { interpolate: true, onDeprecatedAlias: vi.fn() },
+      );
+
+      expect(env.get('URL')._unwrap()).toBe('http://localhost');
+    });
+
+    it('should return an error for an unresolved reference', () => {
+      const env = new Environment(
+        config,
+        { URL: '${HOST}' },
+        { interpolate: true },
+      );
+
+      expect(getErr(env.get('URL')).type).toBe(
+        EnvironmentErrorType.VariableInterpolationError,
+      );
+    });
+  });
+
+  describe('sensitive', () => {
+    const config = {
+      PASSWORD: customVar({
+        parse: (raw) =>
+          raw.length >= 8 ? ok(raw) : err(`"${raw}" is too short`),
+        sensitive: true,
+      }),
+      USER: stringVar(),
+    };
+
+    it('should return the real value', () => {
+      const env = new Environment(config, {
+        PASSWORD: 'hunter2hunter2',
+        USER: 'admin',
+      });
+
+      expect(env.get('PASSWORD')._unwrap()).toBe('hunter2hunter2');
+    });
+
+    it('should redact the value in errors', () => {
+      const env = new Environment(config, { PASSWORD: 'hunter2' });
+      const error = getErr(env.get('PASSWORD'));
+
+      expect(error.raw).toBe('[REDACTED]');
+      expect(error.message).toBe(
+        'Error parsing env var PASSWORD: "[REDACTED]" is too short',
+      );
+    });
+
+    it('should redact the value in interpolation errors', () => {
+      const cases = [
+        ['pa55${word', 'unterminated reference [REDACTED]'],
+        ['pa55${w0rd!}', 'invalid reference [REDACTED]'],
+      ];
+
+      for (const [raw, message] of cases) {
+        const env = new Environment(
+          config,
+          { PASSWORD: raw },
+          { interpolate: true },
+        );
+        const error = getErr(env.get('PASSWORD'));
+
+        expect(error.message).toBe(
+          `Error interpolating env var PASSWORD: ${message}`,
+        );
+        expect(inspect(error)).not.toContain('pa55');
+      }
+    });
+
+    it('should redact the value from variables it is expanded into', () => {
+      const env = new Environment(
+        { DB_PASS: stringVar({ sensitive: true }), URL: urlVar() },
+        { DB_PASS: 'hunter2', URL: 'postgres://u:${DB_PASS}@h:port/app' },
+        { interpolate: true },
+      );
+      const error = getErr(env.get('URL'));
+
+      expect(error.raw).toBe('postgres://u:[REDACTED]@h:port/app');
+      expect(inspect(error)).not.toContain('hunter2');
+      expect(JSON.stringify(error)).not.toContain('hunter2');
+    });
+
+    it('should redact the value in redacted snapshots and serialized output', () => {
+      const env = new Environment(config, {
+        PASSWORD: 'hunter2hunter2',
+        USER: 'admin',
+      });
+
+      expect(env.redactedSnapshot()).toStrictEqual({
+        PASSWORD: '[REDACTED]',
+        USER: 'admin',
+      });
+      expect(JSON.parse(JSON.stringify(env))).toStrictEqual({
+        PASSWORD: '[REDACTED]',
+        USER: 'admin',
+      });
+      expect(inspect(env)).not.toContain('hunter2');
+    });
+  });
+
+  describe('secret files', () => {
+    const config = {
+      PASSWORD: stringVar(),
+    };
+
+    function writeSecret(contents: string) {
+      return path.join(createTempDir({ password: contents }), 'password');
+    }
+
+    it('should read the value from KEY_FILE if KEY is not set', () => {
+      const env = new Environment(
+        config,
+        { PASSWORD_FILE: writeSecret('  secret\n') },
+        { readSecretFiles: true },
+      );
+
+      expect(env.get('PASSWORD')._unwrap()).toBe('secret');
+    });
+
+    it('should expand references to variables read from KEY_FILE', () => {
+      const env = new Environment(
+        { ...config, URL: stringVar() },
+        { PASSWORD_FILE: writeSecret('pa$${w0rd}'), URL: 'x:${PASSWORD}' },
+        { interpolate: true, readSecretFiles: true },
+      );
+
+      expect(env.get('URL')._unwrap()).toBe('x:pa$${w0rd}');
+    });
+
+    it('should not read KEY_FILE by default', () => {
+      const env = new Environment(config, {
+        PASSWORD_FILE: writeSecret('secret'),
+      });
+
+      expect(getErr(env.get('PASSWORD')).type).toBe(
+        EnvironmentErrorType.VariableNotFoundError,
+      );
+    });
+
+    it('should return an error if the file does not exist', () => {
+      const env = new Environment(
+        config,
+        { PASSWORD_FILE: path.join(os.tmpdir(), 'ts-env-missing-secret') },
+        { readSecretFiles: true },
+      );
+      const error = getErr(env.get('PASSWORD'));
+
+      expect(error.type).toBe(EnvironmentErrorType.VariableFileError);
+      expect(error.message).toMatch(/the file does not exist$/);
+    });
+
+    it('should return an error if both KEY and KEY_FILE are set', () => {
+      const env = new Environment(
+        config,
+        { PASSWORD: 'secret', PASSWORD_FILE: writeSecret('secret') },
+        { readSecretFiles: true },
+      );
+
+      expect(getErr(env.get('PASSWORD')).type).toBe(
+        EnvironmentErrorType.VariableConflictError,
+      );
+    });
+  });
+
+  describe('groups', () => {
+    function getGroupEnv(store: { [key: string]: string | undefined } = {}) {
+      return new Environment(
+        {
+          NODE_ENV: enumVar(['development', 'production'] as const),
+          db: group('DB_', {
+            host: stringVar({ default: 'localhost' }),
+            pool: group('POOL_', { maxSize: numberVar() }),
+            port: numberVar(),
+          }),
+        },
+        store,
+        { prefix: 'BILLING_' },
+      );
+    }
+
+    it('should resolve dotted paths to prefixed names', () => {
+      const env = getGroupEnv({ BILLING_DB_PORT: '5432' });
+      const port = env.get('db.port')._unwrap();
+
+      expectTypeOf(port).toEqualTypeOf<number>();
+      expect(port).toBe(5432);
+      expect(env.getRaw('db.port')).toBe('5432');
+    });
+
+    it('should return a nested snapshot', () => {
+      const env = getGroupEnv({
+        BILLING_DB_POOL_MAX_SIZE: '10',
+        BILLING_DB_PORT: '5432',
+        BILLING_NODE_ENV: 'production',
+      });
+      const snapshot = env.snapshot();
+
+      expectTypeOf(snapshot.db.pool.maxSize).toEqualTypeOf<number>();
+      expect(snapshot).toStrictEqual({
+        NODE_ENV: 'production',
+        db: { host: 'localhost', pool: { maxSize: 10 }, port: 5432 },
+      });
+    });
+
+    it('should set variables by their dotted path', () => {
+      const store: { [key: string]: string | undefined } = {};
+      const env = getGroupEnv(store);
+
+      env.set('db.pool.maxSize', '20');
+
+      expect(store).toStrictEqual({ BILLING_DB_POOL_MAX_SIZE: '20' });
+    });
+
+    it('should name the prefixed variable in errors', () => {
+      const env = getGroupEnv();
+
+      expect(getErr(env.get('db.port')).key).toBe('BILLING_DB_PORT');
+    });
+  });
+
+  describe('aliases', () => {
+    const config = {
+      CACHE_HOST: stringVar({ aliases: ['REDIS_HOST', 'REDIS_HOSTNAME'] }),
+    };
+
+    it('should read the value from an alias and report its deprecation once', () => {
+      const onDeprecatedAlias = vi.fn();
+      const env = new Environment(
+        config,
+        { REDIS_HOST: 'cache' },
+        { onDeprecatedAlias },
+      );
+
+      expect(env.get('CACHE_HOST')._unwrap()).toBe('cache');
+      expect(env.get('CACHE_HOST')._unwrap()).toBe('cache');
+      expect(env.getRaw('CACHE_HOST')).toBe('cache');
+      expect(onDeprecatedAlias).toHaveBeenCalledTimes(1);
+      expect(onDeprecatedAlias).toHaveBeenCalledWith(
+        'REDIS_HOST',
+        'CACHE_HOST',
+      );
+    });
+
+    it('should prefer the name of the variable', () => {
+      const onDeprecatedAlias = vi.fn();
+      const env = new Environment(
+        config,
+        { CACHE_HOST: 'cache' },
+        { onDeprecatedAlias },
+      );
+
+      expect(env.get('CACHE_HOST')._unwrap()).toBe('cache');
+      expect(onDeprecatedAlias).not.toHaveBeenCalled();
+    });
+
+    it('should return an error if aliases disagree', () => {
+      const env = new Environment(
+        config,
+        { CACHE_HOST: 'a', REDIS_HOSTNAME: 'b' },
+        { onDeprecatedAlias: vi.fn() },
+      );
+      const error = getErr(env.get('CACHE_HOST'));
+
+      expect(error.type).toBe(EnvironmentErrorType.VariableConflictError);
+      expect(error.message).toBe(
+        'The environment variables CACHE_HOST, REDIS_HOSTNAME are set to different values. Please set only CACHE_HOST.',
+      );
+    });
+
+    it('should unset aliases when setting the variable', () => {
+      const store: { [key: string]: string | undefined } = {
+        REDIS_HOST: 'old',
+      };
+      const env = new Environment(config, store, {
+        onDeprecatedAlias: vi.fn(),
+      });
+
+      env.set('CACHE_HOST', 'new');
+
+      expect(store).toStrictEqual({ CACHE_HOST: 'new' });
+      expect(env.get('CACHE_HOST')._unwrap()).toBe('new');
+
+      env.unset('CACHE_HOST');
+
+      expect(store).toStrictEqual({});
+    });
+  });
+
+  describe('requiredWhen', () => {
+    const config = {
+      MAIL_DRIVER: enumVar(['log', 'smtp'] as const, { default: 'log' }),
+      SMTP_PASSWORD: stringVar({
+        requiredWhen: { equals: 'smtp', key: 'MAIL_DRIVER' },
+        sensitive: true,
+      }),
+      TLS_CERT: stringVar({ requiredWhen: { key: 'TLS_ENABLED' } }),
+      TLS_ENABLED: booleanVar({ default: false }),
+    };
+
+    it('should return undefined when the condition does not hold', () => {
+      const env = new Environment(config, {});
+      const password = env.get('SMTP_PASSWORD')._unwrap();
+
+      expectTypeOf(password).toEqualTypeOf<string | undefined>();
+      expect(password).toBeUndefined();
+      expect(env.get('TLS_CERT')._unwrap()).toBeUndefined();
+    });
+
+    it('should return the value when it is set', () => {
+      const env = new Environment(config, { SMTP_PASSWORD: 'hunter2' });
+
+      expect(env.get('SMTP_PASSWORD')._unwrap()).toBe('hunter2');
+    });
+
+    it('should explain which condition made the variable required', () => {
+      const env = new Environment(config, {
+        MAIL_DRIVER: 'smtp',
+        TLS_ENABLED: 'true',
+      });
+
+      const passwordError = getErr(env.get('SMTP_PASSWORD'));
+      const certError = getErr(env.get('TLS_CERT'));
+
+      expect(passwordError.type).toBe(
+        EnvironmentErrorType.VariableNotFoundError,
+      );
+      expect(passwordError.message).toBe(
+        'The environment variable SMTP_PASSWORD is required because MAIL_DRIVER is "smtp"',
+      );
+      expect(certError.message).toBe(
+        'The environment variable TLS_CERT is required because TLS_ENABLED is true',
+      );
+    });
+
+    it('should check a condition with several values', () => {
+      const env = new Environment(
+        {
+          MAIL_DRIVER: enumVar(['log', 'ses', 'smtp'] as const),
+          MAIL_FROM: stringVar({
+            requiredWhen: { key: 'MAIL_DRIVER', oneOf: ['ses', 'smtp'] },
+          }),
+        },
+        { MAIL_DRIVER: 'ses' },
+      );
+
+      expect(getErr(env.get('MAIL_FROM')).message).toBe(
+        'The environment variable MAIL_FROM is required because MAIL_DRIVER is "ses"',
+      );
+    });
+
+    it('should throw if the condition references an unknown variable', () => {
+      expect(
+        () =>
+          new Environment(
+            {
+              TLS_CERT: stringVar({ requiredWhen: { key: 'TLS_ENABLE' } }),
+              TLS_ENABLED: booleanVar(),
+            },
+            {},
+          ),
+      ).toThrow(
+        expect.objectContaining({
+          key: 'TLS_CERT',
+          message:
+            'The condition of the environment variable references TLS_ENABLE, which is not defined in the configuration. Did you mean TLS_ENABLED?',
+          type: EnvironmentErrorType.VariableUnknownError,
+        }),
+      );
+    });
+
+    it('should not require variables whose conditions reference each other', () => {
+      const env = new Environment(
+        {
+          A: stringVar({ requiredWhen: { key: 'B' } }),
+          B: stringVar({ requiredWhen: { key: 'A' } }),
+        },
+        {},
+      );
+
+      expect(env.snapshot()).toStrictEqual({ A: undefined, B: undefined });
+    });
+  });
+
+  describe('rules', () => {
+    const config = {
+      API_KEY: stringVar({ requiredWhen: { equals: 'key', key: 'AUTH_MODE' } }),
+      AUTH_MODE: enumVar(['key', 'oauth'] as const, { default: 'key' }),
+      db: group('DB_', {
+        poolMax: numberVar(),
+        poolMin: numberVar({ default: 1 }),
+      }),
+    };
+
+    function getRulesEnv(store: { [key: string]: string | undefined }) {
+      return new Environment(config, store, {
+        rules: [
+          {
+            check: ({ db }) => db.poolMin <= db.poolMax,
+            keys: ['db.poolMin', 'db.poolMax'],
+            message: 'the minimum pool size must not exceed the maximum',
+          },
+          {
+            check: ({ API_KEY, AUTH_MODE }) =>
+              AUTH_MODE === 'key' || API_KEY === undefined,
+            keys: ['API_KEY', 'AUTH_MODE'],
+            message: 'an API key is only used with key authentication',
+          },
+        ],
+      });
+    }
+
+    it('should return the snapshot when every rule is satisfied', () => {
+      const env = getRulesEnv({ API_KEY: 'key', DB_POOL_MAX: '10' });
+
+      expect(env.snapshot()).toStrictEqual({
+        API_KEY: 'key',
+        AUTH_MODE: 'key',
+        db: { poolMax: 10, poolMin: 1 },
+      });
+    });
+
+    it('should throw from snapshot() when a rule is not satisfied', () => {
+      const env = getRulesEnv({
+        API_KEY: 'key',
+        DB_POOL_MAX: '2',
+        DB_POOL_MIN: '5',
+      });
+
+      expect(() => env.snapshot()).toThrow(
+        'The environment variables DB_POOL_MIN, DB_POOL_MAX do not satisfy a rule: the minimum pool size must not exceed the maximum',
+      );
+    });
+
+    it('should report every unsatisfied rule when validating', () => {
+      const env = getRulesEnv({
+        API_KEY: 'key',
+        AUTH_MODE: 'oauth',
+        DB_POOL_MAX: '2',
+        DB_POOL_MIN: '5',
+      });
+      const error = getErr(env.validate());
+
+      expect(error.errors.map((e) => [e.key, e.type])).toStrictEqual([
+        ['DB_POOL_MIN, DB_POOL_MAX', EnvironmentErrorType.ConstraintError],
+        ['API_KEY, AUTH_MODE', EnvironmentErrorType.ConstraintError],
+      ]);
+    });
+
+    it('should skip rules involving invalid variables', () => {
+      const env = getRulesEnv({
+        API_KEY: 'key',
+        AUTH_MODE: 'oauth',
+        DB_POOL_MIN: '5',
+      });
+      const error = getErr(env.validate());
+
+      expect(error.errors.map((e) => [e.key, e.type])).toStrictEqual([
+        ['DB_POOL_MAX', EnvironmentErrorType.VariableNotFoundError],
+        ['API_KEY, AUTH_MODE', EnvironmentErrorType.ConstraintError],
+      ]);
+    });
+  });
+
+  describe('cache', () => {
+    function getCachedEnv(
+      store: { [key: string]: string | undefined },
+      cache = true,
+    ) {
+      const parse = vi.fn((raw: string) => ok(raw.toUpperCase()));
+      const env = new Environment({ LOG_LEVEL: customVar({ parse }) }, store, {
+        cache,
+      });
+
+      return { env, parse };
+    }
+
+    it('should parse each raw value once', () => {
+      const { env, parse } = getCachedEnv({ LOG_LEVEL: 'info' });
+
+      expect(env.get('LOG_LEVEL')._unwrap()).toBe('INFO');
+      expect(env.get('LOG_LEVEL')._unwrap()).toBe('INFO');
+      expect(parse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse again when the raw value changes', () => {
+      const store: { [key: string]: string | undefined } = {
+        LOG_LEVEL: 'info',
+      };
+      const { env, parse } = getCachedEnv(store);
+
+      env.get('LOG_LEVEL');
+      store.LOG_LEVEL = 'debug';
+
+      expect(env.get('LOG_LEVEL')._unwrap()).toBe('DEBUG');
+      expect(parse).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate the cache with set(), unset() and withVars()', () => {
+      const { env, parse } = getCachedEnv({ LOG_LEVEL: 'info' });
+
+      env.get('LOG_LEVEL');
+      env.set('LOG_LEVEL', 'info');
+      env.get('LOG_LEVEL');
+      env.withVars({ LOG_LEVEL: 'debug' }, () => env.get('LOG_LEVEL'));
+      env.get('LOG_LEVEL');
+      env.unset('LOG_LEVEL');
+
+      expect(getErr(env.get('LOG_LEVEL')).type).toBe(
+        EnvironmentErrorType.VariableNotFoundError,
+      );
+      expect(parse).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not share errors between reads', () => {
+      const env = new Environment(
+        { PORT: numberVar() },
+        { PORT: 'high' },
+        { cache: true },
+      );
+
+      expect(() => env.getExpect('PORT', 'PORT must be a number')).toThrow(
+        'PORT must be a number',
+      );
+      expect(getErr(env.get('PORT')).message).toBe(
+        'Error parsing env var PORT: the value is not a number',
+      );
+    });
+
+    it('should not share objects between reads', () => {
+      const env = new Environment(
+        { HOSTS: listVar(stringVar()) },
+        { HOSTS: 'a,b' },
+        { cache: true },
+      );
+
+      env.get('HOSTS')._unwrap().push('c');
+
+      expect(env.get('HOSTS')._unwrap()).toStrictEqual(['a', 'b']);
+    });
+
+    it('should not cache unless enabled', () => {
+      const { env, parse } = getCachedEnv({ LOG_LEVEL: 'info' }, false);
+
+      env.get('LOG_LEVEL');
+      env.get('LOG_LEVEL');
+
+      expect(parse).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('changes', () => {
+    const config = {
+      LOG_LEVEL: enumVar(['debug', 'info'] as const),
+      PORT: numberVar(),
+    };
+
+    function writeEnvFile(contents: string) {
+      return createTempDir({ '.env': contents });
+    }
+
+    it('should notify listeners of set(), unset() and withVars()', () => {
+      const env = new Environment(config, { LOG_LEVEL: 'info', PORT: '80' });
+      const listener = vi.fn();
+      const stop = env.onChange('LOG_LEVEL', listener);
+
+      env.set('LOG_LEVEL', 'debug');
+      env.set('LOG_LEVEL', 'debug');
+      env.set('PORT', '81');
+      env.withVars({ LOG_LEVEL: 'info', PORT: '81' }, () => undefined);
+      env.unset('LOG_LEVEL');
+      stop();
+      env.set('LOG_LEVEL', 'info');
+
+      expect(
+        listener.mock.calls.map(([next, prev]) => [
+          next.unwrapOr(undefined),
+          prev.unwrapOr(undefined),
+        ]),
+      ).toStrictEqual([
+        ['debug', 'info'],
+        ['info', 'debug'],
+        ['debug', 'info'],
+        [undefined, 'debug'],
+      ]);
+    });
+
+    it('should reload from the files and notify listeners', () => {
+      const cwd = writeEnvFile('LOG_LEVEL=info\nPORT=80');
+      const env = Environment.fromFiles(config, ['.env'], {
+        cwd,
+        store: {},
+      })._unwrap();
+      const listener = vi.fn();
+
+      env.onChange('PORT', listener);
+      fs.writeFileSync(path.join(cwd, '.env'), 'LOG_LEVEL=debug\nPORT=81');
+
+      expect(env.reload()._unwrap()).toStrictEqual({
+        LOG_LEVEL: 'debug',
+        PORT: 81,
+      });
+      expect(env.get('PORT')._unwrap()).toBe(81);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload from the same files after the working directory changes', () => {
+      const cwd = vi
+        .spyOn(process, 'cwd')
+        .mockReturnValue(writeEnvFile('LOG_LEVEL=info\nPORT=80'));
+      const env = Environment.fromFiles(config, ['.env'], {
+        store: {},
+      })._unwrap();
+
+      cwd.mockReturnValue(writeEnvFile('LOG_LEVEL=debug\nPORT=81'));
+
+      try {
+        expect(env.reload()._unwrap()).toStrictEqual({
+          LOG_LEVEL: 'info',
+          PORT: 80,
+        });
+      } finally {
+        cwd.mockRestore();
+      }
+    });
+
+    it('should report deprecated aliases once across reloads', () => {
+      const onDeprecatedAlias = vi.fn();
+      const env = Environment.fromFiles(
+        { PORT: numberVar({ aliases: ['HTTP_PORT'] }) },
+        ['.env'],
+        { cwd: writeEnvFile('HTTP_PORT=80'), onDeprecatedAlias, store: {} },
+      )._unwrap();
+
+      env.get('PORT');
+      env.reload();
+      env.reload();
+
+      expect(onDeprecatedAlias).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the environment unchanged if the new values are invalid', () => {
+      const cwd = writeEnvFile('LOG_LEVEL=info\nPORT=80');
+      const env = Environment.fromFiles(config, ['.env'], {
+        cwd,
+        store: {},
+      })._unwrap();
+      const listener = vi.fn();
+
+      env.onChange('LOG_LEVEL', listener);
+      fs.writeFileSync(path.join(cwd, '.env'), 'LOG_LEVEL=debug\nPORT=high');
+
+      expect(getErr(env.reload()).errors.map((e) => e.key)).toStrictEqual([
+        'PORT',
+      ]);
+      expect(env.snapshot()).toStrictEqual({ LOG_LEVEL: 'info', PORT: 80 });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should throw when reloading without a source', () => {
+      const env = new Environment(config, {});
+
+      expect(() => env.reload()).toThrow(
+        'The environment has no source to reload from',
+      );
+    });
+
+    it('should reload on a signal until stopped', () => {
+      const store = { LOG_LEVEL: 'info', PORT: '80' };
+      const env = new Environment(
+        config,
+        {},
+        {
+          source: { load: () => ok({ ...store }) },
+        },
+      );
+      const stop = env.watch({ files: false, signal: 'SIGUSR2' });
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+      store.PORT = '81';
+      stop();
+      process.emit('SIGUSR2', 'SIGUSR2');
+
+      expect(env.get('PORT')._unwrap()).toBe(80);
+    });
+
+    it('should throw when watching without a source', () => {
+      const env = new Environment(config, {});
+      const listeners = process.listenerCount('SIGHUP');
+
+      expect(() => env.watch()).toThrow(
+        'The environment has no source to watch',
+      );
+      expect(process.listenerCount('SIGHUP')).toBe(listeners);
+    });
+
+    it('should report errors thrown while reloading on a signal', () => {
+      const onError = vi.fn();
+      const env = new Environment(
+        config,
+        {},
+        {
+          source: {
+            load: () => {
+              throw new Error('unreadable');
+            },
+          },
+        },
+      );
+      const stop = env.watch({ files: false, onError, signal: 'SIGUSR2' });
+
+      expect(() => process.emit('SIGUSR2', 'SIGUSR2')).not.toThrow();
+      stop();
+
+      expect(onError).toHaveBeenCalledWith(new Error('unreadable'));
+    });
+
+    it('should skip directories that do not exist', () => {
+      const env = new Environment(
+        config,
+        {},
+        {
+          source: {
+            files: [path.join(os.tmpdir(), 'ts-env-missing', 'dir', '.env')],
+            load: () => ok({}),
+          },
+        },
+      );
+
+      expect(() => env.watch({ signal: false })()).not.toThrow();
+    });
+
+    it('should reload when a file changes', async () => {
+      const cwd = writeEnvFile('LOG_LEVEL=info\nPORT=80');
+      const env = Environment.fromFiles(config, ['.env'], {
+        cwd,
+        store: {},
+      })._unwrap();
+      const stop = env.watch({ signal: false });
+
+      fs.writeFileSync(path.join(cwd, '.env'), 'LOG_LEVEL=info\nPORT=81');
+
+      await vi.waitFor(() => expect(env.get('PORT')._unwrap()).toBe(81));
+      stop();
+    });
+  });
+
+  describe('withVars()', () => {
+    const config = { REGION: stringVar() };
+
+    it('should restore the environment if the function throws', () => {
+      const store = { REGION: 'eu' };
+      const env = new Environment(config, store);
+
+      expect(() =>
+        env.withVars({ REGION: 'us' }, () => {
+          throw new Error('failed');
+        }),
+      ).toThrow('failed');
+      expect(store).toStrictEqual({ REGION: 'eu' });
+    });
+
+    it('should restore the environment after an async function settles', async () => {
+      const store = { REGION: 'eu' };
+      const env = new Environment(config, store);
+
+      const region = await env.withVarsAsync({ REGION: 'us' }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+
+        return env.get('REGION')._unwrap();
+      });
+
+      expect(region).toBe('us');
+      expect(store).toStrictEqual({ REGION: 'eu' });
+
+      await expect(
+        env.withVarsAsync({ REGION: 'us' }, async () => {
+          throw new Error('failed');
+        }),
+      ).rejects.toThrow('failed');
+      expect(store).toStrictEqual({ REGION: 'eu' });
+    });
+
+    it('should restore values set under an alias exactly', async () => {
+      const store: { [key: string]: string | undefined } = { ZONE: 'a' };
+      const env = new Environment(
+        { REGION: stringVar({ aliases: ['ZONE'] }) },
+        store,
+        { onDeprecatedAlias: vi.fn() },
+      );
+
+      expect(
+        env.withVars({ REGION: 'us' }, () => env.get('REGION')._unwrap()),
+      ).toBe('us');
+      expect(store).toStrictEqual({ ZONE: 'a' });
+
+      await env.withVarsAsync({ REGION: undefined }, () => undefined);
+      expect(store).toStrictEqual({ ZONE: 'a' });
+      expect(env.get('REGION')._unwrap()).toBe('a');
+    });
+
+    it('should isolate overrides to the async context if requested', async () => {
+      const store = { REGION: 'eu' };
+      const env = new Environment(config, store, { isolateOverrides: true });
+      const listener = vi.fn();
+
+      env.onChange('REGION', listener);
+
+      const readLater = async (delay: number) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+
+        return env.get('REGION')._unwrap();
+      };
+      const regions = await Promise.all([
+        env.withVarsAsync({ REGION: 'us' }, readLater, 5),
+        env.withVarsAsync({ REGION: 'ap' }, readLater, 1),
+        env.withVars({ REGION: 'sa' }, () => {
+          env.set('REGION', 'af');
+
+          return env.get('REGION')._unwrap();
+        }),
+      ]);
+
+      expect(regions).toStrictEqual(['us', 'ap', 'af']);
+      expect(env.get('REGION')._unwrap()).toBe('eu');
+      expect(store).toStrictEqual({ REGION: 'eu' });
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('frozen', () => {
+    const config = { REGION: stringVar(), ZONE: stringVar() };
+
+    it('should throw when changing a frozen environment', async () => {
+      const store = { REGION: 'eu', ZONE: 'a' };
+      const env = new Environment(config, store).freeze();
+      const getFrozenError = (fn: () => void) => {
+        try {
+          fn();
+        } catch (error) {
+          return error as EnvironmentError;
+        }
+
+        throw new Error('Expected an error');
+      };
+
+      expect(env.isFrozen()).toBe(true);
+      expect(getFrozenError(() => env.set('REGION', 'us'))).toMatchObject({
+        key: 'REGION',
+        message: 'The environment is frozen, so REGION cannot be changed',
+        type: EnvironmentErrorType.FrozenError,
+      });
+      expect(() => env.unset('REGION')).toThrow(EnvironmentError);
+      expect(() =>
+        env.withVars({ REGION: 'us', ZONE: 'b' }, () => undefined),
+      ).toThrow('The environment is frozen, so REGION, ZONE cannot be changed');
+      await expect(
+        env.withVarsAsync({ REGION: 'us', ZONE: 'b' }, () => undefined),
+      ).rejects.toThrow(EnvironmentError);
+      expect(store).toStrictEqual({ REGION: 'eu', ZONE: 'a' });
+    });
+
+    it('should start frozen if requested', () => {
+      const env = new Environment(config, {}, { frozen: true });
+
+      expect(env.isFrozen()).toBe(true);
+      expect(() => env.set('REGION', 'us')).toThrow(EnvironmentError);
+    });
+
+    it('should not see changes to the store if it is snapshotted', () => {
+      const store: { [key: string]: string | undefined } = { REGION: 'eu' };
+      const env = new Environment(config, store, { snapshotStore: true });
+
+      store.REGION = 'us';
+
+      expect(env.get('REGION')._unwrap()).toBe('eu');
+    });
+  });
+
+  describe('reasons', () => {
+    const config = {
+      LEVEL: enumVar(['debug', 'info', 'warn'] as const),
+      PORTS: listVar(numberVar({ min: 1 })),
+      SECRET: enumVar(['alpha', 'beta'] as const, { sensitive: true }),
+      SETTINGS: jsonVar({ shape: { retries: numberVar({ max: 5 }) } }),
+      SLUG: stringVar({ pattern: '^[a-z]+$' }),
+      TIMEOUT: durationVar('seconds', { min: Duration.from(1, 'seconds') }),
+      WORKERS: numberVar({ max: 8 }),
+    };
+
+    it('should set the reason and details of parse errors', () => {
+      const env = new Environment(config, {
+        LEVEL: 'INFO',
+        PORTS: '80,0',
+        SETTINGS: '{"retries":9}',
+        SLUG: 'Not A Slug',
+        TIMEOUT: '500ms',
+        WORKERS: 'many',
+      });
+
+      expect(getErr(env.get('LEVEL'))).toMatchObject({
+        details: { allowed: ['debug', 'info', 'warn'], closest: 'info' },
+        reason: EnvironmentErrorReason.NotInEnum,
+      });
+      expect(getErr(env.get('PORTS'))).toMatchObject({
+        details: { index: 1, min: 1 },
+        message:
+          'Error parsing env var PORTS: the item at index 1 is invalid: the value is less than the minimum',
+        reason: EnvironmentErrorReason.BelowMin,
+      });
+      expect(getErr(env.get('SETTINGS'))).toMatchObject({
+        details: { max: 5, path: 'retries' },
+        reason: EnvironmentErrorReason.AboveMax,
+      });
+      expect(getErr(env.get('SLUG'))).toMatchObject({
+        details: { pattern: '^[a-z]+$' },
+        reason: EnvironmentErrorReason.PatternMismatch,
+      });
+      expect(getErr(env.get('TIMEOUT'))).toMatchObject({
+        details: { min: 1000 },
+        reason: EnvironmentErrorReason.BelowMin,
+      });
+      expect(getErr(env.get('WORKERS'))).toMatchObject({
+        details: {},
+        reason: EnvironmentErrorReason.NotANumber,
+      });
+    });
+
+    it('should not suggest the closest value of sensitive variables', () => {
+      const env = new Environment(config, { SECRET: 'alpah' });
+
+      expect(getErr(env.get('SECRET')).details).toStrictEqual({
+        allowed: ['alpha', 'beta'],
+      });
+    });
+
+    it('should format messages with the formatter', () => {
+      const env = new Environment(
+        config,
+        { LEVEL: 'verbose', SECRET: 'gamma', WORKERS: '9' },
+        {
+          formatMessage: (error) =>
+            error.reason === EnvironmentErrorReason.AboveMax
+              ? `${error.key} doit être au plus ${error.details?.max}`
+              : `${error.message} (${error.raw})`,
+        },
+      );
+
+      expect(getErr(env.get('WORKERS')).message).toBe(
+        'WORKERS doit être au plus 8',
+      );
+      expect(getErr(env.get('LEVEL')).message).toBe(
+        'Error parsing env var LEVEL: the value is not in the enum (verbose)',
+      );
+      expect(getErr(env.get('SECRET')).message).toBe(
+        'Error parsing env var SECRET: the value is not in the enum ([REDACTED])',
+      );
+    });
   });
 });
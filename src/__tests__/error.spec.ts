@@ -1,5 +1,11 @@
-import { EnvironmentError } from '../error';
-import { EnvironmentErrorType, EnvironmentVariableType } from '../types';
+import { inspect } from 'util';
+
+import { EnvironmentError, EnvironmentValidationError } from '../error';
+import {
+  EnvironmentErrorReason,
+  EnvironmentErrorType,
+  EnvironmentVariableType,
+} from '../types';
 
 describe('class EnvironmentError', () => {
   describe('withMessage()', () => {
@@ -24,3 +30,61 @@ describe('class EnvironmentError', () => {
     });
   });
 });
+
+describe('class EnvironmentError (reason)', () => {
+  it('should serialize the reason and details', () => {
+    const err = new EnvironmentError(
+      EnvironmentErrorType.VariableParseError,
+      'MAX_UPLOAD',
+    ).withReason(EnvironmentErrorReason.AboveMax, { max: 2n ** 64n });
+
+    expect(JSON.parse(JSON.stringify(err))).toMatchObject({
+      details: { max: '18446744073709551616' },
+      reason: EnvironmentErrorReason.AboveMax,
+    });
+  });
+});
+
+describe('class EnvironmentError (sensitive)', () => {
+  const err = new EnvironmentError(
+    EnvironmentErrorType.VariableParseError,
+    'PASSWORD',
+    {
+      default: 'default-secret',
+      sensitive: true,
+      type: EnvironmentVariableType.String,
+    },
+    'secret',
+  );
+
+  it('should redact the raw value', () => {
+    expect(err.raw).toBe('[REDACTED]');
+  });
+
+  it('should not expose the config when serialized or inspected', () => {
+    expect(JSON.stringify(err)).not.toContain('secret');
+    expect(inspect(err)).not.toContain('secret');
+  });
+});
+
+describe('class EnvironmentValidationError', () => {
+  it('should summarize every error in the message', () => {
+    const err = new EnvironmentValidationError([
+      new EnvironmentError(EnvironmentErrorType.VariableNotFoundError, 'A'),
+      new EnvironmentError(
+        EnvironmentErrorType.VariableParseError,
+        'B',
+      ).withMessage('bad value'),
+    ]);
+
+    expect(err).toBeInstanceOf(Error);
+    expect(err.errors).toHaveLength(2);
+    expect(err.message).toBe(
+      [
+        'Environment validation failed with 2 errors:',
+        '  - A (not-found-error): Error getting environment variable A',
+        '  - B (parse-error): bad value',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { Duration } from '@ellefe/ts-core';
+
+import { generateEnvExample } from '../example';
+import { group } from '../group';
+import {
+  booleanVar,
+  durationVar,
+  enumVar,
+  listVar,
+  numberVar,
+  stringVar,
+} from '../variable';
+
+describe('generateEnvExample()', () => {
+  it('should render a documented example of every variable', () => {
+    const example = generateEnvExample({
+      API_TOKEN: stringVar({
+        default: 'secret',
+        description: 'The token used to call the API',
+        sensitive: true,
+      }),
+      LOG_LEVEL: enumVar(['debug', 'info'] as const, {
+        aliases: ['VERBOSITY'],
+        default: 'info',
+      }),
+      MAIL_DRIVER: enumVar(['log', 'smtp'] as const),
+      SMTP_PASSWORD: stringVar({
+        requiredWhen: { equals: 'smtp', key: 'MAIL_DRIVER' },
+      }),
+      TIMEOUT: durationVar('seconds', {
+        default: Duration.from(90, 'seconds'),
+        deprecated: 'use http.timeout instead',
+      }),
+      http: group('HTTP_', {
+        allowedOrigins: listVar(stringVar(), {
+          default: ['https://a.example', 'https://b.example'],
+          separator: ' ',
+        }),
+        port: numberVar({
+          description: 'The port to listen on.\nUse 0 for any free port.',
+          example: '8080',
+          format: 'integer',
+          max: 65535,
+          min: 0,
+        }),
+        prefix: stringVar({ pattern: '^/' }),
+      }),
+    });
+
+    expect(example).toBe(
+      [
+        '# The token used to call the API',
+        '# Type: string',
+        '# Optional, has a default',
+        '# API_TOKEN=',
+        '',
+        '# Type: enum (one of debug, info)',
+        '# Aliases: VERBOSITY',
+        '# Optional, defaults to info',
+        '# LOG_LEVEL=info',
+        '',
+        '# Type: enum (one of log, smtp)',
+        '# Required',
+        'MAIL_DRIVER=',
+        '',
+        '# Type: string',
+        '# Required when MAIL_DRIVER is "smtp"',
+        '# SMTP_PASSWORD=',
+        '',
+        '# Deprecated: use http.timeout instead',
+        '# Type: duration (e.g. 30s, 1m30s or PT5M, bare numbers are seconds)',
+        '# Optional, defaults to 90s',
+        '# TIMEOUT=90s',
+        '',
+        '# Type: list of string (separated by " ")',
+        '# Optional, defaults to "https://a.example https://b.example"',
+        '# HTTP_ALLOWED_ORIGINS="https://a.example https://b.example"',
+        '',
+        '# The port to listen on.',
+        '# Use 0 for any free port.',
+        '# Type: number (integer, min 0, max 65535)',
+        '# Required',
+        'HTTP_PORT=8080',
+        '',
+        '# Type: string (matching /^\\//)',
+        '# Required',
+        'HTTP_PREFIX=',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should describe conditions as they are checked at runtime', () => {
+    const example = generateEnvExample({
+      CA_FILE: stringVar({ requiredWhen: { key: 'TLS_ENABLED' } }),
+      CERT_FILE: stringVar({ requiredWhen: { key: 'TLS_VERIFY' } }),
+      TLS_ENABLED: booleanVar(),
+      TLS_VERIFY: booleanVar({ default: true }),
+      WORKERS: numberVar({ requiredWhen: { key: 'WORKER_COUNT' } }),
+      WORKER_COUNT: numberVar({ default: 0 }),
+    });
+
+    expect(example).toContain('# Required when TLS_ENABLED is true\n');
+    expect(example).toContain(
+      '# Required when TLS_VERIFY is true, as it is by default\n',
+    );
+    expect(example).toContain('# Required when WORKER_COUNT is not 0\n');
+  });
+
+  it('should list only the names of numeric enums', () => {
+    enum Mode {
+      Fast,
+      Safe,
+    }
+
+    expect(generateEnvExample({ MODE: enumVar(Mode) })).toContain(
+      '# Type: enum (one of Fast, Safe)\n',
+    );
+  });
+
+  it('should add the prefix to the names of the variables', () => {
+    expect(generateEnvExample({ PORT: numberVar() }, { prefix: 'APP_' })).toBe(
+      '# Type: number\n# Required\nAPP_PORT=\n',
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  flattenConfig,
+  group,
+  isEnvironmentGroup,
+  toVariableName,
+} from '../group';
+import { EnvironmentVariableType } from '../types';
+import { numberVar, stringVar } from '../variable';
+
+describe('group()', () => {
+  it('should return a group configuration', () => {
+    const cfg = group('DB_', { host: stringVar() });
+
+    expect(cfg).toStrictEqual({
+      prefix: 'DB_',
+      vars: { host: { type: EnvironmentVariableType.String } },
+    });
+    expect(isEnvironmentGroup(cfg)).toBe(true);
+    expect(isEnvironmentGroup(stringVar())).toBe(false);
+  });
+});
+
+describe('toVariableName()', () => {
+  it('should convert keys to upper snake case', () => {
+    expect(toVariableName('host')).toBe('HOST');
+    expect(toVariableName('poolMax')).toBe('POOL_MAX');
+    expect(toVariableName('apiV2Url')).toBe('API_V2_URL');
+    expect(toVariableName('NODE_ENV')).toBe('NODE_ENV');
+  });
+});
+
+describe('flattenConfig()', () => {
+  it('should list every variable with its path and name', () => {
+    const entries = flattenConfig(
+      {
+        LOG_LEVEL: stringVar(),
+        db: group('DB_', {
+          pool: group('POOL_', { maxSize: numberVar() }),
+          port: numberVar(),
+        }),
+      },
+      'BILLING_',
+    );
+
+    expect(entries.map(({ name, path }) => ({ name, path }))).toStrictEqual([
+      { name: 'BILLING_LOG_LEVEL', path: 'LOG_LEVEL' },
+      { name: 'BILLING_DB_POOL_MAX_SIZE', path: 'db.pool.maxSize' },
+      { name: 'BILLING_DB_PORT', path: 'db.port' },
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import { locateJsonError } from '../json';
+
+describe('locateJsonError()', () => {
+  it('should return -1 for valid JSON', () => {
+    for (const raw of [
+      '{}',
+      ' [1, -2.5e3, "a\\"b\\u00e9", true, false, null, {"a": []}] ',
+      '"string"',
+      '0',
+    ]) {
+      expect(locateJsonError(raw)).toBe(-1);
+    }
+  });
+
+  it('should return the position of the first syntax error', () => {
+    const cases: Array<[string, number]> = [
+      ['{\n  "a": }', 9],
+      ['{"a" 1}', 5],
+      ['[1, 2,]', 6],
+      ['[1 2]', 3],
+      ['{"a": "\\x"}', 7],
+      ['{"a": 1', 7],
+      ['{} {}', 3],
+      ['', 0],
+      ['tru', 0],
+    ];
+
+    for (const [raw, position] of cases) {
+      expect(locateJsonError(raw)).toBe(position);
+    }
+  });
+
+  it('should not overflow the stack on deeply nested values', () => {
+    const depth = 100_000;
+
+    expect(locateJsonError('['.repeat(depth))).toBe(depth);
+    expect(
+      locateJsonError(`${'[{"a":'.repeat(depth)}1${'}]'.repeat(depth)}`),
+    ).toBe(-1);
+  });
+});
@@ -0,0 +1,39 @@
+import { getHostFamily, ipToBigInt } from '../network';
+
+describe('getHostFamily()', () => {
+  it('should return the family of a host', () => {
+    const cases: Array<[string, string | undefined]> = [
+      ['example.com', 'hostname'],
+      ['localhost', 'hostname'],
+      ['db-1.internal.', 'hostname'],
+      ['10.0.0.1', 'ipv4'],
+      ['::1', 'ipv6'],
+      ['2001:db8::1', 'ipv6'],
+      ['10.0.0.256', undefined],
+      ['-bad.example.com', undefined],
+      ['under_score.com', undefined],
+      ['', undefined],
+    ];
+
+    for (const [host, family] of cases) {
+      expect(getHostFamily(host)).toBe(family);
+    }
+  });
+});
+
+describe('ipToBigInt()', () => {
+  it('should convert IPv4 and IPv6 addresses', () => {
+    const cases: Array<[string, bigint]> = [
+      ['10.0.0.1', 0x0a000001n],
+      ['::', 0n],
+      ['::1', 1n],
+      ['2001:db8::', 0x20010db8n << 96n],
+      ['::ffff:10.0.0.1', 0xffff0a000001n],
+      ['1:2:3:4:5:6:7:8', 0x00010002000300040005000600070008n],
+    ];
+
+    for (const [address, value] of cases) {
+      expect(ipToBigInt(address)).toBe(value);
+    }
+  });
+});
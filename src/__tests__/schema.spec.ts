@@ -0,0 +1,253 @@
+import { Duration, ok } from '@ellefe/ts-core';
+
+import type { JsonSchema } from '../schema';
+
+import { group } from '../group';
+import { toJsonSchema } from '../schema';
+import {
+  booleanVar,
+  customVar,
+  durationVar,
+  enumVar,
+  numberVar,
+  portVar,
+  stringVar,
+  urlVar,
+} from '../variable';
+
+describe('toJsonSchema()', () => {
+  it('should describe every variable by name', () => {
+    const schema = toJsonSchema(
+      {
+        API_TOKEN: stringVar({ default: 'secret', sensitive: true }),
+        DEBUG: booleanVar({ default: false, validTrueValues: ['on'] }),
+        LOG_LEVEL: enumVar(['debug', 'info'] as const, {
+          default: 'info',
+          description: 'The level of the logs',
+        }),
+        MAIL_DRIVER: enumVar(['log', 'smtp'] as const),
+        SMTP_PASSWORD: stringVar({
+          requiredWhen: { equals: 'smtp', key: 'MAIL_DRIVER' },
+        }),
+        TIMEOUT: durationVar('seconds', {
+          default: Duration.from(90, 'seconds'),
+          deprecated: true,
+        }),
+        http: group('HTTP_', {
+          port: portVar({ example: '8080' }),
+          prefix: stringVar({ pattern: '^/' }),
+          tag: stringVar({ shouldAllowEmpty: true }),
+          workers: numberVar({ format: 'integer', max: 32, min: 1 }),
+        }),
+        parse: customVar({
+          parse: (raw) => ok(raw.length),
+          requiredWhen: { key: 'http.prefix' },
+        }),
+        url: urlVar({ requiredWhen: { equals: true, key: 'DEBUG' } }),
+      },
+      { prefix: 'APP_', title: 'App' },
+    );
+
+    expect(schema).toStrictEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      additionalProperties: true,
+      allOf: [
+        {
+          if: {
+            properties: { APP_MAIL_DRIVER: { const: 'smtp' } },
+            required: ['APP_MAIL_DRIVER'],
+          },
+          then: { required: ['APP_SMTP_PASSWORD'] },
+        },
+        {
+          if: {
+            properties: { APP_HTTP_PREFIX: { not: { enum: [0, ''] } } },
+            required: ['APP_HTTP_PREFIX'],
+          },
+          then: { required: ['APP_parse'] },
+        },
+        {
+          if: {
+            properties: {
+              APP_DEBUG: {
+                anyOf: [
+                  { enum: [true] },
+                  { pattern: '^(?:[Oo][Nn])$', type: 'string' },
+                ],
+              },
+            },
+            required: ['APP_DEBUG'],
+          },
+          then: { required: ['APP_url'] },
+        },
+      ],
+      properties: {
+        APP_API_TOKEN: { pattern: '\\S', type: 'string' },
+        APP_DEBUG: {
+          default: false,
+          anyOf: [
+            { enum: [true, false] },
+            {
+              pattern: '^(?:[Oo][Nn]|[Ff][Aa][Ll][Ss][Ee]|0|[Nn][Oo]|[Nn])$',
+              type: 'string',
+            },
+          ],
+        },
+        APP_HTTP_PORT: {
+          examples: ['8080'],
+          maximum: 65535,
+          minimum: 1,
+          type: 'integer',
+        },
+        APP_HTTP_PREFIX: { pattern: '^\\/', type: 'string' },
+        APP_HTTP_TAG: { type: 'string' },
+        APP_HTTP_WORKERS: { maximum: 32, minimum: 1, type: 'integer' },
+        APP_LOG_LEVEL: {
+          default: 'info',
+          description: 'The level of the logs',
+          enum: ['debug', 'info'],
+        },
+        APP_MAIL_DRIVER: { enum: ['log', 'smtp'] },
+        APP_SMTP_PASSWORD: { pattern: '\\S', type: 'string' },
+        APP_TIMEOUT: {
+          default: '90s',
+          deprecated: true,
+          type: ['number', 'string'],
+        },
+        APP_parse: {},
+        APP_url: { format: 'uri', type: 'string' },
+      },
+      required: [
+        'APP_MAIL_DRIVER',
+        'APP_HTTP_PORT',
+        'APP_HTTP_PREFIX',
+        'APP_HTTP_TAG',
+        'APP_HTTP_WORKERS',
+      ],
+      title: 'App',
+      type: 'object',
+    });
+  });
+
+  it('should describe conditions as they are checked at runtime', () => {
+    const { allOf } = toJsonSchema({
+      CA_FILE: stringVar({ requiredWhen: { key: 'TLS_ENABLED' } }),
+      CERT_FILE: stringVar({ requiredWhen: { key: 'TLS_VERIFY' } }),
+      PLAIN_REASON: stringVar({
+        requiredWhen: { equals: false, key: 'TLS_ENABLED' },
+      }),
+      TLS_ENABLED: booleanVar(),
+      TLS_VERIFY: booleanVar({ default: true }),
+    });
+
+    expect(allOf).toStrictEqual([
+      {
+        if: {
+          properties: {
+            TLS_ENABLED: {
+              anyOf: [
+                { enum: [true] },
+                {
+                  pattern: '^(?:[Tt][Rr][Uu][Ee]|1|[Yy][Ee][Ss]|[Yy])$',
+                  type: 'string',
+                },
+              ],
+            },
+          },
+          required: ['TLS_ENABLED'],
+        },
+        then: { required: ['CA_FILE'] },
+      },
+      {
+        if: {
+          anyOf: [
+            {
+              properties: {
+                TLS_VERIFY: {
+                  anyOf: [
+                    { enum: [true] },
+                    {
+                      pattern: '^(?:[Tt][Rr][Uu][Ee]|1|[Yy][Ee][Ss]|[Yy])$',
+                      type: 'string',
+                    },
+                  ],
+                },
+              },
+              required: ['TLS_VERIFY'],
+            },
+            { not: { required: ['TLS_VERIFY'] } },
+          ],
+        },
+        then: { required: ['CERT_FILE'] },
+      },
+      {
+        if: {
+          properties: {
+            TLS_ENABLED: {
+              anyOf: [
+                { enum: [false] },
+                {
+                  pattern: '^(?:[Ff][Aa][Ll][Ss][Ee]|0|[Nn][Oo]|[Nn])$',
+                  type: 'string',
+                },
+              ],
+            },
+          },
+          required: ['TLS_ENABLED'],
+        },
+        then: { required: ['PLAIN_REASON'] },
+      },
+    ]);
+  });
+
+  it('should accept booleans in any case, as they are parsed', () => {
+    const { properties } = toJsonSchema({
+      DEBUG: booleanVar({
+        validFalseValues: ['OFF'],
+        validTrueValues: ['a.b'],
+      }),
+    });
+
+    expect(properties).toStrictEqual({
+      DEBUG: {
+        anyOf: [
+          { enum: [true, false] },
+          { pattern: '^(?:[Aa]\\.[Bb])$', type: 'string' },
+        ],
+      },
+    });
+
+    const schema = toJsonSchema({ B: booleanVar() }) as {
+      properties: { B: { anyOf: [JsonSchema, { pattern: string }] } };
+    };
+    const pattern = new RegExp(schema.properties.B.anyOf[1].pattern);
+
+    expect(
+      ['TRUE', 'Yes', 'n', 'False'].every((raw) => pattern.test(raw)),
+    ).toBe(true);
+    expect(['', 'truee', 'on'].some((raw) => pattern.test(raw))).toBe(false);
+  });
+
+  it('should list only the names of numeric enums', () => {
+    enum Mode {
+      Fast,
+      Safe,
+    }
+
+    expect(toJsonSchema({ MODE: enumVar(Mode) }).properties).toStrictEqual({
+      MODE: { enum: ['Fast', 'Safe'] },
+    });
+  });
+
+  it('should disallow unknown variables when asked to', () => {
+    expect(
+      toJsonSchema({ PORT: numberVar() }, { additionalProperties: false }),
+    ).toStrictEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      additionalProperties: false,
+      properties: { PORT: { type: 'number' } },
+      required: ['PORT'],
+      type: 'object',
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const created: string[] = [];
+
+afterEach(() => {
+  for (const dir of created.splice(0)) {
+    fs.rmSync(dir, { force: true, recursive: true });
+  }
+});
+
+/**
+ * Create a temporary directory with files, which is removed after the test
+ *
+ * @param files The contents of the files to write, by name
+ * @returns The path of the directory
+ */
+export function createTempDir(files: { [name: string]: string } = {}): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-env-'));
+
+  created.push(dir);
+
+  for (const [name, contents] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), contents);
+  }
+
+  return dir;
+}
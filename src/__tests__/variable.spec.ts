@@ -1,10 +1,21 @@
-import { EnvironmentVariableType } from '../types';
+import { err, ok } from '@ellefe/ts-core';
+
+import {
+  EnvironmentVariableType,
+  type InferEnvironmentVariableType,
+} from '../types';
 import {
   booleanVar,
+  bytesVar,
+  customVar,
   durationVar,
   enumVar,
+  hostPortVar,
+  jsonVar,
+  listVar,
   numberVar,
   stringVar,
+  urlVar,
 } from '../variable';
 
 describe('stringVar()', () => {
@@ -18,6 +29,23 @@ describe('stringVar()', () => {
       type: EnvironmentVariableType.String,
     });
   });
+
+  it('should infer an optional type when the variable is required conditionally', () => {
+    const cfg = stringVar({
+      requiredWhen: { equals: 'smtp', key: 'MAIL_DRIVER' },
+    });
+
+    expectTypeOf<InferEnvironmentVariableType<typeof cfg>>().toEqualTypeOf<
+      string | undefined
+    >();
+    expectTypeOf<
+      InferEnvironmentVariableType<ReturnType<typeof stringVar>>
+    >().toEqualTypeOf<string>();
+    expect(cfg).toStrictEqual({
+      requiredWhen: { equals: 'smtp', key: 'MAIL_DRIVER' },
+      type: EnvironmentVariableType.String,
+    });
+  });
 });
 
 describe('numberVar()', () => {
@@ -47,6 +75,22 @@ describe('booleanVar()', () => {
   });
 });
 
+describe('bytesVar()', () => {
+  it('should return a byte size environment variable configuration', () => {
+    const cfg = bytesVar({ max: 1024, unit: 'KiB' });
+
+    expectTypeOf<InferEnvironmentVariableType<typeof cfg>>().toEqualTypeOf<
+      bigint | number
+    >();
+
+    expect(cfg).toStrictEqual({
+      max: 1024,
+      type: EnvironmentVariableType.Bytes,
+      unit: 'KiB',
+    });
+  });
+});
+
 describe('enumVar()', () => {
   it('should return an enum environment variable configuration', () => {
     const cfg = enumVar(['a', 'b', 'c'] as const, {
@@ -77,3 +121,107 @@ describe('durationVar()', () => {
     });
   });
 });
+
+describe('customVar()', () => {
+  it('should return a custom environment variable configuration', () => {
+    const parse = (raw: string) =>
+      raw.startsWith('us-')
+        ? ok(raw as `us-${string}`)
+        : err('not a US region');
+    const cfg = customVar({ parse });
+
+    expectTypeOf<
+      InferEnvironmentVariableType<typeof cfg>
+    >().toEqualTypeOf<`us-${string}`>();
+
+    expect(cfg).toStrictEqual({
+      parse,
+      type: EnvironmentVariableType.Custom,
+    });
+  });
+});
+
+describe('listVar()', () => {
+  it('should return a list environment variable configuration', () => {
+    const cfg = listVar(numberVar({ format: 'integer' }), {
+      separator: ';',
+      unique: true,
+    });
+
+    expectTypeOf<InferEnvironmentVariableType<typeof cfg>>().toEqualTypeOf<
+      number[]
+    >();
+
+    expect(cfg).toStrictEqual({
+      items: {
+        format: 'integer',
+        type: EnvironmentVariableType.Number,
+      },
+      separator: ';',
+      type: EnvironmentVariableType.List,
+      unique: true,
+    });
+  });
+});
+
+describe('hostPortVar()', () => {
+  it('should return a host and port environment variable configuration', () => {
+    const cfg = hostPortVar({ defaultPort: 5432 });
+
+    expectTypeOf<InferEnvironmentVariableType<typeof cfg>>().toEqualTypeOf<{
+      host: string;
+      port: number;
+    }>();
+
+    expect(cfg).toStrictEqual({
+      defaultPort: 5432,
+      type: EnvironmentVariableType.HostPort,
+    });
+  });
+});
+
+describe('jsonVar()', () => {
+  it('should return a JSON environment variable configuration', () => {
+    const cfg = jsonVar();
+
+    expectTypeOf<
+      InferEnvironmentVariableType<typeof cfg>
+    >().toEqualTypeOf<unknown>();
+
+    expect(cfg).toStrictEqual({
+      type: EnvironmentVariableType.Json,
+    });
+  });
+
+  it('should infer the type of the shape', () => {
+    const cfg = jsonVar({
+      shape: {
+        enabled: booleanVar(),
+        limits: jsonVar({ shape: { rps: numberVar() } }),
+        tags: listVar(stringVar()),
+      },
+    });
+
+    expectTypeOf<InferEnvironmentVariableType<typeof cfg>>().toEqualTypeOf<{
+      enabled: boolean;
+      limits: { rps: number };
+      tags: string[];
+    }>();
+  });
+});
+
+describe('urlVar()', () => {
+  it('should return a URL environment variable configuration', () => {
+    const cfg = urlVar({ protocols: ['https'], requirePort: true });
+
+    expectTypeOf<
+      InferEnvironmentVariableType<typeof cfg>
+    >().toEqualTypeOf<URL>();
+
+    expect(cfg).toStrictEqual({
+      protocols: ['https'],
+      requirePort: true,
+      type: EnvironmentVariableType.Url,
+    });
+  });
+});
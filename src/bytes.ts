@@ -0,0 +1,90 @@
+/**
+ * @file Defines helpers for parsing byte sizes
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { Result } from '@ellefe/ts-core';
+
+import { err, ok } from '@ellefe/ts-core';
+
+import type { BytesUnit, EnvironmentParseFailure } from './types';
+
+import { EnvironmentErrorReason } from './types';
+
+const UNIT_BYTES = new Map<string, bigint>([
+  ['B', 1n],
+  ['kB', 1000n],
+  ['MB', 1000n ** 2n],
+  ['GB', 1000n ** 3n],
+  ['TB', 1000n ** 4n],
+  ['PB', 1000n ** 5n],
+  ['EB', 1000n ** 6n],
+  ['KiB', 1024n],
+  ['MiB', 1024n ** 2n],
+  ['GiB', 1024n ** 3n],
+  ['TiB', 1024n ** 4n],
+  ['PiB', 1024n ** 5n],
+  ['EiB', 1024n ** 6n],
+]);
+const SIZE_PATTERN = /^(\d+)(?:\.(\d+))?\s*([a-zA-Z]*)$/;
+const AMBIGUOUS_UNIT_PATTERN = /^([KMGTPE])B?$/i;
+
+/**
+ * Parse a byte size with an optional SI (e.g. `25MB`) or IEC (e.g. `2GiB`) suffix.
+ * Suffixes that could mean either (e.g. `KB` or `M`) are rejected, as are sizes
+ * that are not a whole number of bytes.
+ *
+ * @param raw The byte size
+ * @param unit The unit of byte sizes without a suffix
+ * @returns A result with the number of bytes, or the reason it is not a byte size
+ */
+export function parseBytes(
+  raw: string,
+  unit: BytesUnit,
+): Result<bigint, EnvironmentParseFailure> {
+  const match = SIZE_PATTERN.exec(raw.trim());
+
+  if (match === null) {
+    return err({
+      details: {},
+      message: 'the value is not a valid byte size (e.g. 512, 25MB or 2GiB)',
+      reason: EnvironmentErrorReason.NotAByteSize,
+    });
+  }
+
+  const [, whole, fraction = '', suffix] = match;
+  const factor = UNIT_BYTES.get(suffix === '' ? unit : suffix);
+
+  if (factor === undefined) {
+    const prefix = AMBIGUOUS_UNIT_PATTERN.exec(suffix)?.[1].toUpperCase();
+
+    if (prefix !== undefined) {
+      const allowed = [`${prefix === 'K' ? 'k' : prefix}B`, `${prefix}iB`];
+
+      return err({
+        details: { allowed, unit: suffix },
+        message: `the unit ${suffix} is ambiguous, use ${allowed.join(' or ')}`,
+        reason: EnvironmentErrorReason.AmbiguousUnit,
+      });
+    }
+
+    return err({
+      details: { allowed: [...UNIT_BYTES.keys()], unit: suffix },
+      message: `the unit ${suffix} is not a known byte unit`,
+      reason: EnvironmentErrorReason.UnknownUnit,
+    });
+  }
+
+  const scale = 10n ** BigInt(fraction.length);
+  const scaled = BigInt(`${whole}${fraction}`) * factor;
+
+  if (scaled % scale !== 0n) {
+    return err({
+      details: {},
+      message: 'the value is not a whole number of bytes',
+      reason: EnvironmentErrorReason.NotAWholeNumberOfBytes,
+    });
+  }
+
+  return ok(scaled / scale);
+}
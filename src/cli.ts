@@ -0,0 +1,349 @@
+#!/usr/bin/env node
+/**
+ * @file Defines the `ts-env` command-line tool
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import { parseArgs } from 'util';
+
+import type { EnvironmentError } from './error';
+import type { EnvironmentConfig, EnvironmentStore } from './types';
+
+import { loadDotenvFiles } from './dotenv';
+import { Environment } from './environment';
+import { EnvironmentValidationError } from './error';
+import { isEnvironmentGroup } from './group';
+
+const TYPESCRIPT_EXTENSIONS = new Set(['.cts', '.mts', '.ts', '.tsx']);
+const USAGE = `Usage: ts-env <command> [options]
+
+Commands:
+  check  Validate the environment against a config module
+
+Options:
+  -c, --config <path>    The module exporting the environment or its config
+  -e, --env-file <path>  A dotenv file to load first, may be repeated
+      --export <name>    The export to use, if the module has several
+      --format <format>  The output format, "table" (default) or "json"
+      --prefix <prefix>  The prefix of the variables, when exporting a config
+  -h, --help             Show this help`;
+
+/**
+ * Exit codes of the command-line tool
+ */
+export enum CliExitCode {
+  Failure = 1,
+  Success = 0,
+  UsageError = 2,
+}
+
+/**
+ * The input and output of the command-line tool
+ */
+export interface CliIo {
+  /** The directory to resolve relative paths from */
+  cwd: string;
+
+  /** The store dotenv files are loaded into before the config module */
+  env: EnvironmentStore;
+
+  /** Loads a module, resolving packages such as `tsx` from the project */
+  require: (id: string) => unknown;
+
+  /** The stream errors are written to */
+  stderr: Pick<NodeJS.WritableStream, 'write'>;
+
+  /** The stream output is written to */
+  stdout: Pick<NodeJS.WritableStream, 'write'>;
+}
+
+/**
+ * An error in the arguments of the command-line tool
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Run the command-line tool
+ *
+ * @param argv The arguments, without the node executable and script
+ * @param io The input and output of the tool
+ * @returns The exit code
+ */
+export function run(
+  argv: string[],
+  io: CliIo = {
+    cwd: process.cwd(),
+    env: process.env,
+    require: createRequire(path.resolve('package.json')),
+    stderr: process.stderr,
+    stdout: process.stdout,
+  },
+): CliExitCode {
+  try {
+    const { positionals, values } = parseArgs({
+      allowPositionals: true,
+      args: argv,
+      options: {
+        config: { short: 'c', type: 'string' },
+        'env-file': { multiple: true, short: 'e', type: 'string' },
+        export: { type: 'string' },
+        format: { default: 'table', type: 'string' },
+        help: { short: 'h', type: 'boolean' },
+        prefix: { type: 'string' },
+      },
+    });
+
+    if (values.help === true) {
+      io.stdout.write(`${USAGE}\n`);
+      return CliExitCode.Success;
+    }
+
+    if (positionals.length !== 1 || positionals[0] !== 'check') {
+      throw new CliUsageError(
+        positionals.length === 0
+          ? 'Expected a command'
+          : `Unknown command ${positionals.join(' ')}`,
+      );
+    }
+
+    if (values.format !== 'json' && values.format !== 'table') {
+      throw new CliUsageError(`Unknown format ${values.format}`);
+    }
+
+    if (values.config === undefined) {
+      throw new CliUsageError('Expected a config module with --config');
+    }
+
+    loadEnvFiles(values['env-file'] ?? [], io);
+
+    const errors = checkEnvironment(
+      values.config,
+      values.export,
+      values.prefix,
+      io,
+    );
+
+    io.stdout.write(
+      values.format === 'json'
+        ? `${JSON.stringify({ errors: groupErrors(errors), valid: errors.length === 0 }, null, 2)}\n`
+        : formatTable(errors),
+    );
+
+    return errors.length === 0 ? CliExitCode.Success : CliExitCode.Failure;
+  } catch (e) {
+    io.stderr.write(`ts-env: ${e instanceof Error ? e.message : String(e)}\n`);
+
+    if (
+      e instanceof CliUsageError ||
+      (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS') === true
+    ) {
+      io.stderr.write(`\n${USAGE}\n`);
+    }
+
+    return CliExitCode.UsageError;
+  }
+}
+
+/**
+ * Validate the environment exported by a config module. Modules that validate
+ * the environment when they are loaded (e.g. with `assertValid`) are supported.
+ *
+ * @param file The path of the config module
+ * @param name The name of the export to use, if any
+ * @param prefix The prefix of the variables, when the module exports a configuration
+ * @param io The input and output of the tool
+ * @returns The errors of the environment
+ */
+function checkEnvironment(
+  file: string,
+  name: string | undefined,
+  prefix: string | undefined,
+  io: CliIo,
+): EnvironmentError[] {
+  try {
+    const res = loadEnvironment(file, name, prefix, io).validate();
+
+    return res.isErr() ? res.inner().errors : [];
+  } catch (e) {
+    if (e instanceof EnvironmentValidationError) {
+      return e.errors;
+    }
+
+    throw e;
+  }
+}
+
+/**
+ * Format the errors of an environment as tables, one per type of error
+ *
+ * @param errors The errors of the environment
+ * @returns The formatted tables
+ */
+function formatTable(errors: EnvironmentError[]): string {
+  if (errors.length === 0) {
+    return 'The environment is valid\n';
+  }
+
+  const sections = Object.entries(groupErrors(errors)).map(([type, group]) => {
+    const rows = [
+      ['KEY', 'MESSAGE'],
+      ...group.map((error) => [error.key, error.message]),
+    ];
+    const width = Math.max(...rows.map(([key]) => key.length));
+
+    return [
+      `${type} (${group.length})`,
+      ...rows.map(([key, message]) =>
+        `  ${key.padEnd(width)}  ${message.replace(/\n/g, ' ')}`.trimEnd(),
+      ),
+    ].join('\n');
+  });
+
+  return `The environment has ${errors.length} error${errors.length === 1 ? '' : 's'}\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Group errors by their type
+ *
+ * @param errors The errors to group
+ * @returns The errors, by their type
+ */
+function groupErrors(errors: EnvironmentError[]): {
+  [type: string]: EnvironmentError[];
+} {
+  const groups: { [type: string]: EnvironmentError[] } = {};
+
+  for (const error of errors) {
+    (groups[error.type] ??= []).push(error);
+  }
+
+  return groups;
+}
+
+/**
+ * Check whether a value is an environment configuration
+ *
+ * @param value The value to check
+ * @returns Whether the value is an environment configuration
+ */
+function isEnvironmentConfig(value: unknown): value is EnvironmentConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const entries = Object.values(value);
+
+  return (
+    entries.length > 0 &&
+    entries.every(
+      (entry) =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        (isEnvironmentGroup(entry)
+          ? isEnvironmentConfig((entry as { vars?: unknown }).vars)
+          : typeof (entry as { type?: unknown }).type === 'string'),
+    )
+  );
+}
+
+/**
+ * Load the environment exported by a config module. The module may export an
+ * environment or its configuration, as its default export or a named export.
+ *
+ * @param file The path of the config module
+ * @param name The name of the export to use, if any
+ * @param prefix The prefix of the variables, when the module exports a configuration
+ * @param io The input and output of the tool
+ * @returns The environment
+ */
+function loadEnvironment(
+  file: string,
+  name: string | undefined,
+  prefix: string | undefined,
+  io: CliIo,
+): Environment<EnvironmentConfig> {
+  const resolved = path.resolve(io.cwd, file);
+
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`The config module ${file} does not exist`);
+  }
+
+  if (TYPESCRIPT_EXTENSIONS.has(path.extname(resolved))) {
+    try {
+      io.require('tsx/cjs');
+    } catch {
+      throw new Error(
+        `Loading the TypeScript module ${file} requires tsx to be installed`,
+      );
+    }
+  }
+
+  const exports = io.require(resolved) as { [name: string]: unknown };
+  const isUsable = (value: unknown) =>
+    value instanceof Environment || isEnvironmentConfig(value);
+  let value: unknown;
+
+  if (name !== undefined) {
+    if (!(name in exports) || !isUsable(exports[name])) {
+      throw new Error(
+        `The export ${name} of ${file} is not an environment or its config`,
+      );
+    }
+
+    value = exports[name];
+  } else if (isUsable(exports)) {
+    value = exports;
+  } else {
+    const candidates = Object.keys(exports).filter((key) =>
+      isUsable(exports[key]),
+    );
+
+    if (candidates.includes('default')) {
+      value = exports.default;
+    } else if (candidates.length === 1) {
+      value = exports[candidates[0]];
+    } else {
+      throw new Error(
+        candidates.length === 0
+          ? `The module ${file} does not export an environment or its config`
+          : `The module ${file} exports several environments (${candidates.join(', ')}), choose one with --export`,
+      );
+    }
+  }
+
+  return value instanceof Environment
+    ? (value as Environment<EnvironmentConfig>)
+    : new Environment(value as EnvironmentConfig, io.env, { prefix });
+}
+
+/**
+ * Load dotenv files into the store, without overriding the variables that are
+ * already set
+ *
+ * @param files The paths of the dotenv files, later files overriding earlier ones
+ * @param io The input and output of the tool
+ */
+function loadEnvFiles(files: string[], io: CliIo): void {
+  for (const file of files) {
+    if (!fs.existsSync(path.resolve(io.cwd, file))) {
+      throw new Error(`The env file ${file} does not exist`);
+    }
+  }
+
+  const res = loadDotenvFiles(files, io.cwd);
+
+  if (res.isErr()) {
+    throw res.inner();
+  }
+
+  for (const [key, value] of Object.entries(res._unwrap())) {
+    io.env[key] ??= value;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = run(process.argv.slice(2));
+}
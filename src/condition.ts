@@ -0,0 +1,30 @@
+/**
+ * @file Defines how the conditions of conditionally required variables are checked
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { EnvironmentVariableCondition } from './types';
+
+/**
+ * Check whether a condition holds for the parsed value of the variable it
+ * references, which is its default if it is unset. Without `equals` or
+ * `oneOf`, the condition holds if the value is truthy.
+ *
+ * @param condition The condition to check
+ * @param value The parsed value of the referenced variable
+ * @returns Whether the condition holds
+ */
+export function conditionHolds(
+  { equals, oneOf }: EnvironmentVariableCondition,
+  value: unknown,
+): boolean {
+  if (oneOf !== undefined) {
+    return oneOf.includes(value);
+  }
+
+  if (equals !== undefined) {
+    return value === equals;
+  }
+
+  return Boolean(value);
+}
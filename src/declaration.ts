@@ -0,0 +1,145 @@
+/**
+ * @file Defines a generator for type declarations of the environment variables
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { EnvironmentConfig, EnvironmentVariableConfig } from './types';
+
+import { listEnumValues } from './enum';
+import { formatRaw } from './format';
+import { flattenConfig } from './group';
+import { EnvironmentVariableType } from './types';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Options for generating type declarations
+ */
+export interface TypeDeclarationOptions {
+  /**
+   * Whether to also augment `ImportMetaEnv`, as used by Vite and similar bundlers
+   *
+   * @default false
+   */
+  importMeta?: boolean;
+
+  /**
+   * A prefix added to the names of all the variables, as with the
+   * `prefix` option of an environment
+   *
+   * @default ''
+   */
+  prefix?: string;
+}
+
+/**
+ * Generate a `.d.ts` file that augments `NodeJS.ProcessEnv`, and optionally
+ * `ImportMetaEnv`, with the variables of an environment configuration. Variables
+ * that are always required are typed as `string`, the others are optional, and
+ * enum variables are typed as the union of their values.
+ *
+ * @param config The configuration of the environment
+ * @param options The options for generating the declarations
+ * @returns The contents of the file
+ */
+export function generateTypeDeclarations(
+  config: EnvironmentConfig,
+  options: TypeDeclarationOptions = {},
+): string {
+  const members = flattenConfig(config, options.prefix).map(
+    ({ config: cfg, name }) => {
+      const key = IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+      const optional =
+        cfg.default !== undefined || cfg.requiredWhen !== undefined;
+
+      return [
+        ...describeVariable(cfg),
+        `${key}${optional ? '?' : ''}: ${describeType(cfg)};`,
+      ];
+    },
+  );
+  const indent = (lines: string[][], depth: number) =>
+    lines
+      .map((member) => member.map((line) => `${'  '.repeat(depth)}${line}`))
+      .map((member) => member.join('\n'))
+      .join('\n\n');
+
+  return [
+    '// This file is generated from the environment configuration, do not edit it',
+    '',
+    'declare global {',
+    '  namespace NodeJS {',
+    '    interface ProcessEnv {',
+    indent(members, 3),
+    '    }',
+    '  }',
+    ...(options.importMeta === true
+      ? ['', '  interface ImportMetaEnv {', indent(members, 2), '  }']
+      : []),
+    '}',
+    '',
+    'export {};',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Describe the type of an environment variable as it is stored
+ *
+ * @param cfg The configuration of the environment variable
+ * @returns The type of the raw value
+ */
+function describeType(cfg: EnvironmentVariableConfig): string {
+  if (cfg.type !== EnvironmentVariableType.Enum) {
+    return 'string';
+  }
+
+  const values = new Set(
+    listEnumValues(cfg.enum).map((value) => JSON.stringify(value)),
+  );
+
+  return [...values].join(' | ');
+}
+
+/**
+ * Describe an environment variable in a doc comment
+ *
+ * @param cfg The configuration of the environment variable
+ * @returns The lines of the doc comment, or none if there is nothing to describe
+ */
+function describeVariable(cfg: EnvironmentVariableConfig): string[] {
+  const lines = (cfg.description ?? '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+  const tags: string[] = [];
+  const rawDefault =
+    cfg.sensitive === true ? undefined : formatRaw(cfg.default, cfg);
+
+  if (rawDefault !== undefined) {
+    tags.push(`@default ${JSON.stringify(rawDefault)}`);
+  }
+
+  if (cfg.deprecated !== undefined && cfg.deprecated !== false) {
+    tags.push(
+      cfg.deprecated === true ? '@deprecated' : `@deprecated ${cfg.deprecated}`,
+    );
+  }
+
+  const body = [
+    ...lines,
+    ...(lines.length > 0 && tags.length > 0 ? [''] : []),
+    ...tags,
+  ]
+    // Keep the comment from being closed early
+    .map((line) => line.replace(/\*\//g, '*\\/'));
+
+  if (body.length === 0) {
+    return [];
+  }
+
+  return [
+    '/**',
+    ...body.map((line) => (line === '' ? ' *' : ` * ${line}`)),
+    ' */',
+  ];
+}
@@ -0,0 +1,17 @@
+/**
+ * @file Defines the defaults shared by parsing and describing environment variables
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+
+/** The separator of list items, when a list does not set one */
+export const DEFAULT_LIST_SEPARATOR = ',';
+
+/** The values parsed as false, when a boolean does not set them */
+export const DEFAULT_VALID_FALSE_VALUES = ['false', '0', 'no', 'n'];
+
+/** The values parsed as true, when a boolean does not set them */
+export const DEFAULT_VALID_TRUE_VALUES = ['true', '1', 'yes', 'y'];
+
+/** The highest valid port */
+export const MAX_PORT = 65535;
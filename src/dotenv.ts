@@ -0,0 +1,209 @@
+/**
+ * @file Defines a parser for dotenv files
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { Result } from '@ellefe/ts-core';
+
+import { err, ok } from '@ellefe/ts-core';
+import fs from 'fs';
+import path from 'path';
+
+import type { EnvironmentStore } from './types';
+
+import { EnvironmentError } from './error';
+import { EnvironmentErrorType } from './types';
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const EXPORT_PATTERN = /^export\s+/;
+
+const ESCAPES: { [char: string]: string } = {
+  '"': '"',
+  '\\': '\\',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Parse the contents of a dotenv file
+ *
+ * Supports:
+ * - `KEY=value` pairs, optionally prefixed with `export`
+ * - Full line comments and inline comments after unquoted values
+ * - Single quoted values, which are taken literally
+ * - Double quoted values, which support escapes and may span multiple lines
+ * - Backtick quoted values, which are taken literally and may span multiple lines
+ *
+ * @param source The contents of the file
+ * @param file The name of the file, used in error messages
+ * @returns A result with the parsed variables, or an error
+ */
+export function parseDotenv(
+  source: string,
+  file = '.env',
+): Result<{ [key: string]: string }, EnvironmentError> {
+  const result: { [key: string]: string } = {};
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    let line = lines[i].trimStart();
+
+    if (line.trim() === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    line = line.replace(EXPORT_PATTERN, '');
+
+    const eq = line.indexOf('=');
+
+    if (eq === -1) {
+      return err(
+        parseError(file, lineNumber, '', 'expected a line like KEY=value'),
+      );
+    }
+
+    const key = line.slice(0, eq).trim();
+
+    if (!KEY_PATTERN.test(key)) {
+      return err(
+        parseError(file, lineNumber, key, `"${key}" is not a valid key`),
+      );
+    }
+
+    const rest = line.slice(eq + 1).trimStart();
+    const quote = rest[0];
+
+    if (quote !== '"' && quote !== "'" && quote !== '`') {
+      const comment = rest.search(/\s#/);
+
+      result[key] = (comment === -1 ? rest : rest.slice(0, comment)).trim();
+      continue;
+    }
+
+    let content = '';
+    let segment = rest.slice(1);
+    let end = findClosingQuote(segment, quote);
+
+    while (end === -1) {
+      if (quote === "'" || i + 1 >= lines.length) {
+        return err(
+          parseError(
+            file,
+            lineNumber,
+            key,
+            `unterminated ${quote} quoted value`,
+          ),
+        );
+      }
+
+      content += `${segment}\n`;
+      segment = lines[++i];
+      end = findClosingQuote(segment, quote);
+    }
+
+    content += segment.slice(0, end);
+
+    const trailing = segment.slice(end + 1).trim();
+
+    if (trailing !== '' && !trailing.startsWith('#')) {
+      return err(
+        parseError(
+          file,
+          i + 1,
+          key,
+          'unexpected characters after the quoted value',
+        ),
+      );
+    }
+
+    result[key] = quote === '"' ? unescape(content) : content;
+  }
+
+  return ok(result);
+}
+
+/**
+ * Read and parse dotenv files, later files overriding earlier ones.
+ * Files that do not exist are skipped.
+ *
+ * @param files The paths of the files to read
+ * @param cwd The directory to resolve relative paths from
+ * @returns A result with the merged variables, or an error
+ */
+export function loadDotenvFiles(
+  files: string[],
+  cwd: string = process.cwd(),
+): Result<EnvironmentStore, EnvironmentError> {
+  const result: EnvironmentStore = {};
+
+  for (const file of files) {
+    const resolved = path.resolve(cwd, file);
+
+    if (!fs.existsSync(resolved)) {
+      continue;
+    }
+
+    const parsed = parseDotenv(fs.readFileSync(resolved, 'utf-8'), file);
+
+    if (parsed.isErr()) {
+      return err(parsed.inner());
+    }
+
+    Object.assign(result, parsed._unwrap());
+  }
+
+  return ok(result);
+}
+
+/**
+ * Find the index of the closing quote in a segment of a quoted value
+ *
+ * @param segment The segment to search
+ * @param quote The quote character
+ * @returns The index of the closing quote, or -1 if there is none
+ */
+function findClosingQuote(segment: string, quote: string): number {
+  for (let i = 0; i < segment.length; i++) {
+    if (quote === '"' && segment[i] === '\\') {
+      i++;
+    } else if (segment[i] === quote) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Create an error for a malformed line in a dotenv file
+ *
+ * @param file The name of the file
+ * @param line The line number
+ * @param key The key on the line, if known
+ * @param reason The reason the line is malformed
+ * @returns The error
+ */
+function parseError(
+  file: string,
+  line: number,
+  key: string,
+  reason: string,
+): EnvironmentError {
+  return new EnvironmentError(EnvironmentErrorType.FileParseError, key)
+    .withLocation(file, line)
+    .withMessage(`Error parsing ${file}:${line}: ${reason}`);
+}
+
+/**
+ * Replace the escape sequences in a double quoted value
+ *
+ * @param value The value to unescape
+ * @returns The unescaped value
+ */
+function unescape(value: string): string {
+  return value.replace(/\\(.)/gs, (match, char: string) =>
+    char in ESCAPES ? ESCAPES[char] : match,
+  );
+}
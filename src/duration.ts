@@ -0,0 +1,71 @@
+/**
+ * @file Defines helpers for parsing human-friendly duration strings
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+
+const UNIT_MILLISECONDS: { [unit: string]: number } = {
+  d: 86_400_000,
+  h: 3_600_000,
+  m: 60_000,
+  ms: 1,
+  s: 1_000,
+  w: 604_800_000,
+};
+const NUMBER = '\\d+(?:\\.\\d+)?';
+const COMPOUND_PATTERN = new RegExp(`^(?:${NUMBER}(?:ms|[smhdw])\\s*)+$`);
+const COMPONENT_PATTERN = new RegExp(`(${NUMBER})(ms|[smhdw])`, 'g');
+const ISO_NUMBER = '(\\d+(?:[.,]\\d+)?)';
+const ISO_PATTERN = new RegExp(
+  `^P(?:${ISO_NUMBER}W)?(?:${ISO_NUMBER}D)?(?:T(?:${ISO_NUMBER}H)?(?:${ISO_NUMBER}M)?(?:${ISO_NUMBER}S)?)?$`,
+  'i',
+);
+const ISO_UNITS = ['w', 'd', 'h', 'm', 's'];
+const UNIT_ORDER = ['w', 'd', 'h', 'm', 's', 'ms'];
+
+/**
+ * Parse a duration string into milliseconds. Accepts unit-suffixed and compound
+ * strings (e.g. `500ms`, `30s`, `1h 30m`, `1.5d`) with the units `ms`, `s`, `m`,
+ * `h`, `d` and `w`, and ISO 8601 durations without years or months (e.g. `PT5M`).
+ * The components of compound strings must be in descending order of their
+ * units, each unit at most once.
+ *
+ * @param raw The duration string
+ * @returns The duration in milliseconds, or undefined if the string is not a duration
+ */
+export function parseDuration(raw: string): number | undefined {
+  const trimmed = raw.trim();
+
+  if (COMPOUND_PATTERN.test(trimmed)) {
+    let total = 0;
+    let previous = -1;
+
+    for (const [, amount, unit] of trimmed.matchAll(COMPONENT_PATTERN)) {
+      const order = UNIT_ORDER.indexOf(unit);
+
+      if (order <= previous) {
+        return undefined;
+      }
+
+      previous = order;
+      total += Number(amount) * UNIT_MILLISECONDS[unit];
+    }
+
+    return total;
+  }
+
+  const match = ISO_PATTERN.exec(trimmed);
+
+  // A designator must be followed by at least one component
+  if (match === null || /[PT]$/i.test(trimmed)) {
+    return undefined;
+  }
+
+  return ISO_UNITS.reduce((total, unit, i) => {
+    const amount = match[i + 1];
+
+    return amount === undefined
+      ? total
+      : total + Number(amount.replace(',', '.')) * UNIT_MILLISECONDS[unit];
+  }, 0);
+}
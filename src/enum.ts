@@ -0,0 +1,22 @@
+/**
+ * @file Defines helpers for the values of enum environment variables
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { EnumLike } from '@ellefe/ts-core';
+
+import { isString } from '@ellefe/ts-core';
+
+/**
+ * List the values an enum environment variable accepts. Raw values are
+ * strings, so the numbers of numeric TypeScript enums are left out and only
+ * their names are accepted.
+ *
+ * @param values The values of the enum, as an array or a TypeScript enum
+ * @returns The accepted values
+ */
+export function listEnumValues(values: EnumLike): string[] {
+  return (Array.isArray(values) ? values : Object.values(values)).filter(
+    isString,
+  );
+}
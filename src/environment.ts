@@ -3,33 +3,195 @@
  * @author Rowan Gudmundsson
  * @since 1.0.0
  */
-import type {
-  EnumLike,
-  EnumValue,
-  Result,
-  StringKeysOf,
-} from '@ellefe/ts-core';
+import type { EnumLike, EnumValue, Result } from '@ellefe/ts-core';
 
 import { Duration, err, isString, ok } from '@ellefe/ts-core';
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import { isIP } from 'net';
+import path from 'path';
+import { inspect } from 'util';
 
+import type { InterpolatedValue } from './interpolation';
 import type {
   BooleanEnvironmentVariableConfig,
+  BytesEnvironmentVariableConfig,
+  CidrEnvironmentVariableConfig,
+  CidrNetwork,
+  CustomEnvironmentVariableConfig,
   DurationEnvironmentVariableConfig,
   EnumEnvironmentVariableConfig,
   EnvironmentConfig,
+  EnvironmentErrorDetails,
+  EnvironmentFilesOptions,
+  EnvironmentKey,
+  EnvironmentOptions,
+  EnvironmentParseFailure,
+  EnvironmentSource,
+  EnvironmentStore,
+  EnvironmentVariableCondition,
   EnvironmentVariableConfig,
+  EnvironmentVariableEntry,
+  EnvironmentWatchOptions,
+  HostEnvironmentVariableConfig,
+  HostFamily,
+  HostPort,
+  HostPortEnvironmentVariableConfig,
   InferEnvironmentType,
+  InferEnvironmentValue,
+  InferEnvironmentVariableType,
+  JsonEnvironmentVariableConfig,
+  ListEnvironmentVariableConfig,
   NumberEnvironmentVariableConfig,
+  RedactedEnvironmentType,
   StringEnvironmentVariableConfig,
+  UrlEnvironmentVariableConfig,
 } from './types';
 
-import { EnvironmentError } from './error';
-import { EnvironmentErrorType, EnvironmentVariableType } from './types';
+import { parseBytes } from './bytes';
+import { conditionHolds } from './condition';
+import {
+  DEFAULT_LIST_SEPARATOR,
+  DEFAULT_VALID_FALSE_VALUES,
+  DEFAULT_VALID_TRUE_VALUES,
+  MAX_PORT,
+} from './defaults';
+import { loadDotenvFiles } from './dotenv';
+import { parseDuration } from './duration';
+import { listEnumValues } from './enum';
+import { EnvironmentError, EnvironmentValidationError } from './error';
+import { flattenConfig } from './group';
+import { interpolate } from './interpolation';
+import { locateJsonError } from './json';
+import { getHostFamily, ipToBigInt } from './network';
+import { REDACTED, redact } from './redact';
+import {
+  EnvironmentErrorReason,
+  EnvironmentErrorType,
+  EnvironmentVariableType,
+} from './types';
 
-const DEFAULT_VALID_TRUE_VALUES = ['true', '1', 'yes', 'y'];
-const DEFAULT_VALID_FALSE_VALUES = ['false', '0', 'no', 'n'];
+const SECRET_FILE_SUFFIX = '_FILE';
+const DEFAULT_DEPRECATED_ALIAS_HANDLER = (alias: string, name: string) =>
+  process.emitWarning(
+    `The environment variable ${alias} is deprecated, use ${name} instead`,
+    'DeprecationWarning',
+  );
+const DEFAULT_RELOAD_ERROR_HANDLER = (error: Error) =>
+  process.emitWarning(
+    `The environment could not be reloaded: ${error.message}`,
+  );
+const HOST_FAMILY_DESCRIPTIONS: { [family in HostFamily]: string } = {
+  hostname: 'a hostname',
+  ipv4: 'an IPv4 address',
+  ipv6: 'an IPv6 address',
+};
+const SECRET_FILE_ERROR_REASONS: { [code: string]: string | undefined } = {
+  EACCES: 'the file is not readable',
+  EISDIR: 'the path is a directory',
+  ENOENT: 'the file does not exist',
+};
 
 export class Environment<Config extends EnvironmentConfig> {
+  /** The cached values of the variables, by their dotted path */
+  private readonly cache = new Map<string, { raw: string; value: unknown }>();
+
+  /** The dotted paths of the variables whose conditions are being checked */
+  private readonly checkingConditions = new Set<string>();
+
+  /** The values of enum variables, by their configuration */
+  private readonly enumValues = new WeakMap<
+    EnumEnvironmentVariableConfig<EnumLike>,
+    Set<string>
+  >();
+
+  /** Whether the environment is frozen */
+  private frozen: boolean;
+
+  /** The listeners of changes to the variables, by their dotted path */
+  private readonly listeners = new Map<
+    string,
+    Set<
+      (
+        next: Result<unknown, EnvironmentError>,
+        prev: Result<unknown, EnvironmentError>,
+      ) => void
+    >
+  >();
+
+  /** The variables of the configuration, by their name in the store */
+  private readonly names: Map<string, EnvironmentVariableEntry>;
+
+  /** The stores with isolated overrides, by async context */
+  private readonly overlay = new AsyncLocalStorage<EnvironmentStore>();
+
+  /** The compiled patterns of string variables, by their configuration */
+  private readonly patterns = new WeakMap<
+    StringEnvironmentVariableConfig,
+    RegExp
+  >();
+
+  /** The deprecated aliases that have already been reported */
+  private readonly reportedAliases = new Set<string>();
+
+  /** The variables of the configuration, by their dotted path */
+  private readonly variables: Map<string, EnvironmentVariableEntry>;
+
+  /**
+   * Create an environment from dotenv files merged with a store
+   *
+   * @param config The configuration of the environment
+   * @param files The paths of the dotenv files to load, later files overriding earlier ones
+   * @param options The options for loading the files
+   * @returns A result with the environment, or an error if a file could not be parsed
+   */
+  public static fromFiles<Config extends EnvironmentConfig>(
+    config: Config,
+    files: string[],
+    options: EnvironmentFilesOptions<Config> = {},
+  ): Result<Environment<Config>, EnvironmentError> {
+    const { cwd, precedence = 'environment', store = process.env } = options;
+    // Resolved once, so that reloads read the files that are watched
+    const directory = path.resolve(cwd ?? process.cwd());
+    const source: EnvironmentSource = {
+      files: files.map((file) => path.resolve(directory, file)),
+      load: () =>
+        loadDotenvFiles(files, directory).map((values) =>
+          precedence === 'environment'
+            ? { ...values, ...store }
+            : { ...store, ...values },
+        ),
+    };
+
+    return source
+      .load()
+      .map((merged) => new Environment(config, merged, { source, ...options }));
+  }
+
+  /**
+   * Assign a value at a dotted path of an object, creating nested objects as needed
+   *
+   * @param target The object to assign the value to
+   * @param path The dotted path to assign the value at
+   * @param value The value to assign
+   */
+  private static assignPath(
+    target: { [key: string]: unknown },
+    path: string,
+    value: unknown,
+  ): void {
+    const segments = path.split('.');
+    const last = segments.pop() as string;
+    let current = target;
+
+    for (const segment of segments) {
+      current[segment] ??= {};
+      current = current[segment] as { [key: string]: unknown };
+    }
+
+    current[last] = value;
+  }
+
   /**
    * Construct a result from a parser
    *
@@ -37,28 +199,200 @@ export class Environment<Config extends EnvironmentConfig> {
    * @param key The key of the environment variable
    * @param cfg The configuration of the environment variable
    * @param raw The raw value of the environment variable
+   * @param secrets The values of sensitive variables expanded into the raw value
+   * @param formatMessage Formats the message of the error, if set
    * @returns A result with the value of the environment variable, or an error
    */
   private static constructResult<T, Cfg extends EnvironmentVariableConfig>(
-    parser: (raw: string, cgf: Cfg) => Result<T, string>,
+    parser: (raw: string, cgf: Cfg) => Result<T, EnvironmentParseFailure>,
     key: string,
     cfg: Cfg,
     raw: string,
+    secrets: string[],
+    formatMessage?: (error: EnvironmentError) => string,
   ): Result<T, EnvironmentError> {
-    return parser(raw, cfg).mapErr((err) =>
-      new EnvironmentError(
+    // Only the secrets are redacted from values composed of other variables
+    const shown = secrets.reduce(redact, raw);
+
+    return parser(raw, cfg).mapErr(({ details, message, reason }) => {
+      const error = new EnvironmentError(
         EnvironmentErrorType.VariableParseError,
         key,
         cfg,
-        raw,
-      ).withMessage(`Error parsing env var ${key}: ${err}`),
+        shown,
+      )
+        .withReason(reason, details)
+        .withMessage(`Error parsing env var ${key}: ${message}`);
+
+      if (formatMessage !== undefined) {
+        error.withMessage(formatMessage(error));
+      }
+
+      return error.withMessage(
+        cfg.sensitive === true
+          ? redact(error.message, raw)
+          : secrets.reduce(redact, error.message),
+      );
+    });
+  }
+
+  /**
+   * Describe where a JSON value failed to parse
+   *
+   * @param raw The raw JSON value
+   * @returns A failed result with the position, line and column of the error
+   */
+  private static describeJsonError(
+    raw: string,
+  ): Result<never, EnvironmentParseFailure> {
+    const located = locateJsonError(raw);
+    const position = located === -1 ? raw.length : located;
+    const lines = raw.slice(0, position).split('\n');
+
+    return Environment.fail(
+      EnvironmentErrorReason.InvalidJson,
+      `the value is not valid JSON at position ${position} (line ${lines.length}, column ${lines[lines.length - 1].length + 1})`,
+      { position },
     );
   }
 
+  /**
+   * Describe the location of a value within a JSON value
+   *
+   * @param path The path of the value, empty for the root
+   * @returns A description of the value for error messages
+   */
+  private static describeJsonPath(path: string): string {
+    return path === '' ? 'the value' : `the property ${path}`;
+  }
+
+  /**
+   * Construct a failed result for a value that could not be parsed
+   *
+   * @param reason The reason the value could not be parsed
+   * @param message The default message describing the failure
+   * @param details The details of the failure
+   * @returns A failed result
+   */
+  private static fail(
+    reason: EnvironmentErrorReason,
+    message: string,
+    details: EnvironmentErrorDetails = {},
+  ): Result<never, EnvironmentParseFailure> {
+    return err({ details, message, reason });
+  }
+
+  /**
+   * Find the candidate closest to a value, ignoring case, by edit distance
+   *
+   * @param value The value to compare
+   * @param candidates The candidates to compare the value with
+   * @returns The closest candidate, or undefined if none is close enough
+   */
+  private static findClosest(
+    value: string,
+    candidates: string[],
+  ): string | undefined {
+    const target = value.toLowerCase();
+    const maxDistance = Math.max(1, Math.floor(target.length / 3));
+    let closest: string | undefined;
+    let closestDistance = Infinity;
+
+    for (const candidate of candidates) {
+      const source = candidate.toLowerCase();
+      let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+
+      for (let i = 1; i <= source.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= target.length; j++) {
+          current[j] = Math.min(
+            previous[j] + 1,
+            current[j - 1] + 1,
+            previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1),
+          );
+        }
+
+        previous = current;
+      }
+
+      const distance = previous[target.length];
+
+      if (distance <= maxDistance && distance < closestDistance) {
+        closest = candidate;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
   constructor(
     private readonly config: Config,
-    private readonly store: { [key: string]: string | undefined } = process.env,
-  ) {}
+    private store: EnvironmentStore = process.env,
+    private readonly options: EnvironmentOptions<Config> = {},
+  ) {
+    this.frozen = options.frozen === true;
+    this.variables = new Map(
+      flattenConfig(config, options.prefix).map((entry) => [entry.path, entry]),
+    );
+    this.names = new Map(
+      [...this.variables.values()].map((entry) => [entry.name, entry]),
+    );
+
+    if (options.snapshotStore === true) {
+      this.store = { ...store };
+    }
+
+    for (const { config: cfg, path } of this.variables.values()) {
+      this.prepareConfig(cfg);
+
+      // A condition on an unknown variable would silently never hold
+      if (
+        cfg.requiredWhen !== undefined &&
+        !this.variables.has(cfg.requiredWhen.key)
+      ) {
+        const { key } = cfg.requiredWhen;
+        const closest = Environment.findClosest(key, [
+          ...this.variables.keys(),
+        ]);
+
+        throw new EnvironmentError(
+          EnvironmentErrorType.VariableUnknownError,
+          path,
+          cfg,
+        ).withMessage(
+          `The condition of the environment variable references ${key}, which is not defined in the configuration.${closest === undefined ? '' : ` Did you mean ${closest}?`}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate every environment variable in the configuration, expecting
+   * all of them to be valid. This is the recommended way to check the
+   * environment at startup.
+   *
+   * @returns An object with all the environment variables and their values
+   *
+   * @throws {EnvironmentValidationError} If any environment variable is invalid
+   */
+  public assertValid(): InferEnvironmentType<Config> {
+    return this.validate()._unwrap();
+  }
+
+  /**
+   * Freeze the environment, so that trying to change its variables with `set()`,
+   * `unset()`, `withVars()` or `withVarsAsync()` throws an error. Reloading from
+   * its source with `reload()` is still allowed.
+   *
+   * @returns The environment
+   */
+  public freeze(): this {
+    this.frozen = true;
+
+    return this;
+  }
 
   /**
    * Get an environment variable
@@ -66,9 +400,9 @@ export class Environment<Config extends EnvironmentConfig> {
    * @param key The key of the environment variable
    * @returns A result with the value of the environment variable, or an error
    */
-  public get<K extends keyof Config & string>(
+  public get<K extends EnvironmentKey<Config>>(
     key: K,
-  ): Result<InferEnvironmentType<Config>[K], EnvironmentError> {
+  ): Result<InferEnvironmentValue<Config, K>, EnvironmentError> {
     return this.getInner(key);
   }
 
@@ -81,10 +415,10 @@ export class Environment<Config extends EnvironmentConfig> {
    *
    * @throws {EnvironmentError} If the environment variable is not defined
    */
-  public getExpect<K extends keyof Config & string>(
+  public getExpect<K extends EnvironmentKey<Config>>(
     key: K,
     message?: string,
-  ): InferEnvironmentType<Config>[K] {
+  ): InferEnvironmentValue<Config, K> {
     const res = this.getInner(key);
 
     return res
@@ -104,264 +438,1352 @@ export class Environment<Config extends EnvironmentConfig> {
    * @param key The key of the environment variable
    * @returns The value of the environment variable or undefined
    */
-  public getRaw(key: StringKeysOf<Config>): string | undefined {
-    return this.store[key];
+  public getRaw(key: EnvironmentKey<Config>): string | undefined {
+    const entry = this.variables.get(key);
+
+    if (entry === undefined) {
+      return this.activeStore()[key];
+    }
+
+    const [source = entry.name] = this.findSources(entry.name, entry.config);
+
+    return this.activeStore()[source];
+  }
+
+  /**
+   * Check whether the environment is frozen
+   *
+   * @returns Whether the environment is frozen
+   */
+  public isFrozen(): boolean {
+    return this.frozen;
   }
 
   /**
-   * Set an environment variable
+   * Listen to changes to an environment variable made with `set()`, `unset()`,
+   * `withVars()` or `reload()`. The listener is called when the raw value of
+   * the environment variable changes.
    *
    * @param key The key of the environment variable
-   * @param value The value of the environment variable
+   * @param listener The function called with the new and the old value
+   * @returns A function that removes the listener
    */
-  public set(key: StringKeysOf<Config>, value: string | undefined): void {
-    this.store[key] = value;
+  public onChange<K extends EnvironmentKey<Config>>(
+    key: K,
+    listener: (
+      next: Result<InferEnvironmentValue<Config, K>, EnvironmentError>,
+      prev: Result<InferEnvironmentValue<Config, K>, EnvironmentError>,
+    ) => void,
+  ): () => void {
+    const listeners = this.listeners.get(key) ?? new Set();
+    const untyped = listener as (
+      next: Result<unknown, EnvironmentError>,
+      prev: Result<unknown, EnvironmentError>,
+    ) => void;
+
+    listeners.add(untyped);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(untyped);
+
+      if (listeners.size === 0 && this.listeners.get(key) === listeners) {
+        this.listeners.delete(key);
+      }
+    };
   }
 
   /**
-   * Get an object with all the environment variables and their values
+   * Get an object with all the environment variables and their values,
+   * with the values of sensitive environment variables redacted
    *
-   * @returns An object with all the environment variables and their values
+   * @returns An object with all the environment variables and their redacted values
    *
    * @throws {EnvironmentError} If an environment variable is not defined
    */
-  public snapshot(): InferEnvironmentType<Config> {
-    const result: Partial<InferEnvironmentType<Config>> = {};
+  public redactedSnapshot(): RedactedEnvironmentType<Config> {
+    const result: { [key: string]: unknown } = {};
 
-    for (const key in this.config) {
-      if (Object.prototype.hasOwnProperty.call(this.config, key)) {
-        result[key] = this.getInner(key)._unwrap();
-      }
+    for (const { config, path } of this.variables.values()) {
+      const value = this.getInner(path as EnvironmentKey<Config>)._unwrap();
+
+      Environment.assignPath(
+        result,
+        path,
+        config.sensitive === true ? REDACTED : value,
+      );
     }
 
-    return result as InferEnvironmentType<Config>;
+    return result as RedactedEnvironmentType<Config>;
   }
 
   /**
-   * Unset an environment variable
+   * Read the store again from the source of the environment and validate it.
+   * The new store is only used, and listeners are only notified, if every
+   * environment variable is valid. Otherwise, the environment is left unchanged.
    *
-   * @param key The key of the environment variable
-   */
-  public unset(key: StringKeysOf<Config>): void {
-    this.set(key, undefined);
-  }
-
-  /**
-   * Set multiple environment variables and run a function
-   * with the new environment then restore the old environment
+   * @returns A result with all the environment variables and their new values,
+   * or an error if the source could not be read or the new values are invalid
    *
-   * @param vars The environment variables to set
-   * @param fn The function to run with the new environment
-   * @param args The arguments to pass to the function
-   * @returns The result of the function
+   * @throws {Error} If the environment has no source
    */
-  public withVars<Args extends any[], Res>(
-    vars: {
-      [K in StringKeysOf<Config>]: string | undefined;
-    },
-    fn: (...args: Args) => Res,
-    ...args: Args
-  ): Res {
-    type Keys = StringKeysOf<Config>;
+  public reload(): Result<
+    InferEnvironmentType<Config>,
+    EnvironmentValidationError
+  > {
+    if (this.options.source === undefined) {
+      throw new Error('The environment has no source to reload from');
+    }
 
-    const old: { [K in Keys]?: string } = {};
+    const loaded = this.options.source.load();
 
-    for (const [k, v] of Object.entries(vars) as Array<
-      [Keys, string | undefined]
-    >) {
-      old[k] = this.getRaw(k);
-      this.set(k, v);
+    if (loaded.isErr()) {
+      return err(new EnvironmentValidationError([loaded.inner()]));
     }
 
-    const res = fn(...args);
+    const store = loaded._unwrap();
+    // Deprecated aliases are reported once, by this environment as they are read
+    const validated = new Environment(this.config, store, {
+      ...this.options,
+      cache: false,
+      onDeprecatedAlias: () => undefined,
+    }).validate();
 
-    for (const [k, v] of Object.entries(old) as Array<
-      [Keys, string | undefined]
-    >) {
-      this.set(k, v);
+    if (validated.isOk()) {
+      this.applyChange(() => {
+        this.cache.clear();
+        this.store = store;
+      });
     }
 
-    return res;
+    return validated;
   }
 
   /**
-   * Get an environment variable
+   * Set an environment variable. Any aliases of the environment
+   * variable are unset so that the new value is used.
    *
    * @param key The key of the environment variable
-   * @returns A result with the value of the environment variable, or an error
+   * @param value The value of the environment variable
+   *
+   * @throws {EnvironmentError} If the environment is frozen
    */
-  private getInner<K extends keyof Config & string>(
-    key: K,
-  ): Result<InferEnvironmentType<Config>[K], EnvironmentError> {
-    type Res = InferEnvironmentType<Config>[K];
+  public set(key: EnvironmentKey<Config>, value: string | undefined): void {
+    this.assertNotFrozen(key);
 
-    const cfg = this.config[key];
-    const raw = this.store[key];
+    const overlay = this.overlay.getStore();
 
-    if (cfg === undefined) {
-      return err(
-        new EnvironmentError(
-          EnvironmentErrorType.VariableUnknownError,
-          key,
-        ).withMessage(
-          'The environment variable is not defined in the configuration. Please check the configuration.',
-        ),
-      );
+    if (overlay !== undefined) {
+      this.writeVar(overlay, key, value);
+      return;
     }
 
-    if (raw === undefined) {
-      if (cfg.default !== undefined) {
-        return ok(cfg.default as Res);
-      }
+    this.applyChange(() => {
+      this.cache.delete(key);
+      this.writeVar(this.store, key, value);
+    });
+  }
 
-      return err(
-        new EnvironmentError(
-          EnvironmentErrorType.VariableNotFoundError,
-          key,
-          cfg,
-        ),
+  /**
+   * Get an object with all the environment variables and their values
+   *
+   * @returns An object with all the environment variables and their values
+   *
+   * @throws {EnvironmentError} If an environment variable is not defined,
+   * or a rule of the environment is not satisfied
+   */
+  public snapshot(): InferEnvironmentType<Config> {
+    const result: { [key: string]: unknown } = {};
+
+    for (const { path } of this.variables.values()) {
+      Environment.assignPath(
+        result,
+        path,
+        this.getInner(path as EnvironmentKey<Config>)._unwrap(),
       );
     }
 
-    switch (cfg.type) {
-      case EnvironmentVariableType.String:
-        return Environment.constructResult(
-          this.parseAsString.bind(this),
-          key,
-          cfg,
-          raw,
-        ) as Result<Res, EnvironmentError>;
-
-      case EnvironmentVariableType.Number:
-        return Environment.constructResult(
-          this.parseAsNumber.bind(this),
-          key,
-          cfg,
-          raw,
-        ) as Result<Res, EnvironmentError>;
-
-      case EnvironmentVariableType.Boolean:
-        return Environment.constructResult(
-          this.parseAsBoolean.bind(this),
-          key,
-          cfg,
-          raw,
-        ) as Result<Res, EnvironmentError>;
-
-      case EnvironmentVariableType.Enum:
-        return Environment.constructResult(
-          this.parseAsEnum.bind(this) as (
-            raw: string,
-            cfg: Config[K],
-          ) => Result<Res, string>,
-          key,
-          cfg,
-          raw,
-        );
+    const [ruleError] = this.checkRules(
+      result as InferEnvironmentType<Config>,
+      new Set(),
+    );
 
-      case EnvironmentVariableType.Duration:
-        return Environment.constructResult(
-          this.parseAsDuration.bind(this),
-          key,
-          cfg,
-          raw,
-        ) as Result<Res, EnvironmentError>;
+    if (ruleError !== undefined) {
+      throw ruleError;
     }
+
+    return result as InferEnvironmentType<Config>;
   }
 
   /**
-   * Get an environment variable as a boolean
+   * Get a serializable representation of the environment with the raw
+   * values of the configured environment variables, redacting sensitive ones
    *
-   * @param raw The raw value of the environment variable
-   * @param cfg The configuration of the environment variable
-   * @returns A result with the value of the environment variable, or an error
+   * @returns An object with the raw values of the environment variables
    */
-  private parseAsBoolean(
-    raw: string,
-    cfg: BooleanEnvironmentVariableConfig,
-  ): Result<boolean, string> {
-    const {
-      validFalseValues = DEFAULT_VALID_FALSE_VALUES,
-      validTrueValues = DEFAULT_VALID_TRUE_VALUES,
-    } = cfg;
+  public toJSON(): { [key: string]: string | undefined } {
+    const result: { [key: string]: string | undefined } = {};
 
-    if (validTrueValues.includes(raw.toLowerCase())) {
-      return ok(true);
-    }
+    for (const { config, name } of this.variables.values()) {
+      const raw = this.activeStore()[name];
 
-    if (validFalseValues.includes(raw.toLowerCase())) {
-      return ok(false);
+      result[name] =
+        raw !== undefined && config.sensitive === true ? REDACTED : raw;
     }
 
-    return err('the value is not a boolean');
+    return result;
   }
 
   /**
-   * Get an environment variable as a duration
+   * Unset an environment variable
    *
-   * @param raw The raw value of the environment variable
-   * @param cfg The configuration of the environment variable
-   * @returns A result with the value of the environment variable, or an error
+   * @param key The key of the environment variable
+   *
+   * @throws {EnvironmentError} If the environment is frozen
    */
-  private parseAsDuration(
-    raw: string,
-    cfg: DurationEnvironmentVariableConfig,
-  ): Result<Duration, string> {
-    return this.parseAsNumber(raw, {
-      type: EnvironmentVariableType.Number,
-    }).map((num) => Duration.from(num, cfg.unit));
+  public unset(key: EnvironmentKey<Config>): void {
+    this.set(key, undefined);
   }
 
   /**
-   * Get an environment variable as an enum
+   * Validate every environment variable in the configuration, collecting
+   * all errors instead of stopping at the first one
    *
-   * @param raw The raw value of the environment variable
-   * @param cfg The configuration of the environment variable
-   * @returns A result with the value of the environment variable, or an error
+   * @returns A result with all the environment variables and their values,
+   * or an error holding every invalid environment variable
    */
-  private parseAsEnum<T extends EnumLike>(
-    raw: string,
-    cfg: EnumEnvironmentVariableConfig<T>,
-  ): Result<EnumValue<T>, string> {
-    const values = Array.isArray(cfg.enum) ? cfg.enum : Object.values(cfg.enum);
+  public validate(): Result<
+    InferEnvironmentType<Config>,
+    EnvironmentValidationError
+  > {
+    const result: { [key: string]: unknown } = {};
+    const errors: EnvironmentError[] = [];
+    const invalid = new Set<string>();
+
+    for (const { path } of this.variables.values()) {
+      const res = this.getInner(path as EnvironmentKey<Config>);
 
-    if (!values.includes(raw)) {
-      return err('the value is not in the enum');
+      if (res.isErr()) {
+        errors.push(res.inner());
+        invalid.add(path);
+      } else {
+        Environment.assignPath(result, path, res._unwrap());
+      }
     }
 
-    return ok(raw as EnumValue<T>);
+    errors.push(
+      ...this.checkRules(result as InferEnvironmentType<Config>, invalid),
+    );
+
+    if (errors.length > 0) {
+      return err(new EnvironmentValidationError(errors));
+    }
+
+    return ok(result as InferEnvironmentType<Config>);
   }
 
   /**
-   * Get an environment variable as a number
+   * Reload the environment when its source changes or the process receives
+   * a signal. Failed reloads leave the environment unchanged.
    *
-   * @param raw The raw value of the environment variable
-   * @param cfg The configuration of the environment variable
-   * @returns A result with the value of the environment variable, or an error
+   * @param options The options for watching the source
+   * @returns A function that stops watching the source
+   *
+   * @throws {Error} If the environment has no source
    */
-  private parseAsNumber(
-    raw: string,
-    cfg: NumberEnvironmentVariableConfig,
-  ): Result<number, string> {
-    const parsed = Number(raw);
-
-    if (isNaN(parsed)) {
-      return err('the value is not a number');
+  public watch({
+    files = true,
+    onError = DEFAULT_RELOAD_ERROR_HANDLER,
+    signal = 'SIGHUP',
+  }: EnvironmentWatchOptions = {}): () => void {
+    if (this.options.source === undefined) {
+      throw new Error('The environment has no source to watch');
     }
 
-    if (cfg.format === 'integer' && !Number.isInteger(parsed)) {
-      return err('the value is not an integer');
-    }
+    // Errors must not escape the handlers, where nothing would catch them
+    const reload = () => {
+      try {
+        const res = this.reload();
 
-    if (cfg.min !== undefined && parsed < cfg.min) {
-      return err('the value is less than the minimum');
-    }
+        if (res.isErr()) {
+          onError(res.inner());
+        }
+      } catch (error) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+    const watchers = files ? this.watchFiles(reload) : [];
 
-    if (cfg.max !== undefined && parsed > cfg.max) {
-      return err('the value is greater than the maximum');
+    if (signal !== false) {
+      process.on(signal, reload);
     }
 
-    return ok(parsed);
+    return () => {
+      if (signal !== false) {
+        process.off(signal, reload);
+      }
+
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    };
+  }
+
+  /**
+   * Set multiple environment variables and run a function
+   * with the new environment then restore the old environment,
+   * even if the function throws. With `isolateOverrides`, the new
+   * environment is only visible within the function instead.
+   *
+   * @param vars The environment variables to set
+   * @param fn The function to run with the new environment
+   * @param args The arguments to pass to the function
+   * @returns The result of the function
+   *
+   * @throws {EnvironmentError} If the environment is frozen
+   */
+  public withVars<Args extends any[], Res>(
+    vars: {
+      [K in EnvironmentKey<Config>]: string | undefined;
+    },
+    fn: (...args: Args) => Res,
+    ...args: Args
+  ): Res {
+    this.assertNotFrozen(Object.keys(vars).join(', '));
+
+    if (this.options.isolateOverrides === true) {
+      return this.runIsolated(vars, () => fn(...args));
+    }
+
+    const old = this.applyOverrides(vars);
+
+    try {
+      return fn(...args);
+    } finally {
+      this.restoreEntries(old);
+    }
+  }
+
+  /**
+   * Set multiple environment variables and run an async function with the
+   * new environment, then restore the old environment once the returned
+   * promise settles. With `isolateOverrides`, the new environment is only
+   * visible within the async context of the function, so concurrent calls
+   * do not see each other's variables.
+   *
+   * @param vars The environment variables to set
+   * @param fn The function to run with the new environment
+   * @param args The arguments to pass to the function
+   * @returns A promise with the result of the function, rejected if the environment is frozen
+   */
+  public async withVarsAsync<Args extends any[], Res>(
+    vars: {
+      [K in EnvironmentKey<Config>]: string | undefined;
+    },
+    fn: (...args: Args) => Promise<Res> | Res,
+    ...args: Args
+  ): Promise<Res> {
+    this.assertNotFrozen(Object.keys(vars).join(', '));
+
+    if (this.options.isolateOverrides === true) {
+      return this.runIsolated(vars, () => fn(...args));
+    }
+
+    const old = this.applyOverrides(vars);
+
+    try {
+      return await fn(...args);
+    } finally {
+      this.restoreEntries(old);
+    }
+  }
+
+  /**
+   * Inspect the environment with the raw values of the configured
+   * environment variables, redacting sensitive ones
+   *
+   * @returns The inspected environment
+   */
+  public [inspect.custom](): string {
+    return `Environment ${inspect(this.toJSON())}`;
+  }
+
+  /**
+   * Get the store used in the current async context, which is the store of the
+   * innermost isolated overrides if there are any
+   *
+   * @returns The store
+   */
+  private activeStore(): EnvironmentStore {
+    return this.overlay.getStore() ?? this.store;
+  }
+
+  /**
+   * Change the store and notify the listeners of the environment
+   * variables whose raw value changed
+   *
+   * @param change The function changing the store
+   */
+  private applyChange(change: () => void): void {
+    const previous = [...this.listeners.keys()].map((key) => ({
+      key: key as EnvironmentKey<Config>,
+      raw: this.getRaw(key as EnvironmentKey<Config>),
+      result: this.getInner(key as EnvironmentKey<Config>),
+    }));
+
+    change();
+
+    for (const { key, raw, result } of previous) {
+      if (this.getRaw(key) === raw) {
+        continue;
+      }
+
+      const next = this.getInner(key);
+
+      for (const listener of [...(this.listeners.get(key) ?? [])]) {
+        listener(next, result);
+      }
+    }
+  }
+
+  /**
+   * Set multiple environment variables
+   *
+   * @param vars The environment variables to set
+   * @returns The previous entries of the store under the names of the
+   * environment variables and their aliases, to restore with `restoreEntries()`
+   */
+  private applyOverrides(vars: {
+    [K in EnvironmentKey<Config>]?: string;
+  }): EnvironmentStore {
+    const old: EnvironmentStore = {};
+
+    for (const [k, v] of Object.entries(vars) as Array<
+      [EnvironmentKey<Config>, string | undefined]
+    >) {
+      const entry = this.variables.get(k);
+
+      for (const name of [entry?.name ?? k, ...(entry?.config.aliases ?? [])]) {
+        if (!(name in old)) {
+          old[name] = this.store[name];
+        }
+      }
+
+      this.set(k, v);
+    }
+
+    return old;
+  }
+
+  /**
+   * Throw an error if the environment is frozen
+   *
+   * @param key The keys of the environment variables being changed
+   *
+   * @throws {EnvironmentError} If the environment is frozen
+   */
+  private assertNotFrozen(key: string): void {
+    if (this.frozen) {
+      throw new EnvironmentError(
+        EnvironmentErrorType.FrozenError,
+        key,
+      ).withMessage(`The environment is frozen, so ${key} cannot be changed`);
+    }
+  }
+
+  /**
+   * Check whether the condition of a conditionally required environment variable holds
+   *
+   * @param condition The condition to check
+   * @returns A description of why the condition holds, or undefined if it does not
+   */
+  private checkCondition(
+    condition: EnvironmentVariableCondition,
+  ): string | undefined {
+    const { key } = condition;
+    // The keys of conditions are checked when the environment is constructed
+    const entry = this.variables.get(key) as EnvironmentVariableEntry;
+
+    // Variables whose conditions reference each other are not required
+    if (this.checkingConditions.has(key)) {
+      return undefined;
+    }
+
+    this.checkingConditions.add(key);
+
+    let res: Result<unknown, EnvironmentError>;
+
+    try {
+      res = this.getInner(key as EnvironmentKey<Config>);
+    } finally {
+      this.checkingConditions.delete(key);
+    }
+
+    // An invalid variable is reported on its own and does not make others required
+    const value = res.isErr() ? undefined : res._unwrap();
+
+    if (!conditionHolds(condition, value)) {
+      return undefined;
+    }
+
+    return entry.config.sensitive === true
+      ? `${entry.name} is set`
+      : `${entry.name} is ${JSON.stringify(value)}`;
+  }
+
+  /**
+   * Check the rules of the environment against its values
+   *
+   * @param values The values of the environment
+   * @param invalid The dotted paths of the invalid variables, whose rules are skipped
+   * @returns An error for every rule that is not satisfied
+   */
+  private checkRules(
+    values: InferEnvironmentType<Config>,
+    invalid: Set<string>,
+  ): EnvironmentError[] {
+    const errors: EnvironmentError[] = [];
+
+    for (const { check, keys, message } of this.options.rules ?? []) {
+      if (keys.some((key) => invalid.has(key)) || check(values)) {
+        continue;
+      }
+
+      const names = keys
+        .map((key) => this.variables.get(key)?.name ?? key)
+        .join(', ');
+
+      errors.push(
+        new EnvironmentError(
+          EnvironmentErrorType.ConstraintError,
+          names,
+        ).withMessage(
+          `The environment variables ${names} do not satisfy a rule: ${message}`,
+        ),
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find the names under which an environment variable is set in the store,
+   * starting with its own name and followed by its aliases
+   *
+   * @param name The name of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns The names under which the environment variable is set
+   */
+  private findSources(name: string, cfg: EnvironmentVariableConfig): string[] {
+    return [name, ...(cfg.aliases ?? [])].filter(
+      (source) => this.activeStore()[source] !== undefined,
+    );
+  }
+
+  /**
+   * Get an environment variable
+   *
+   * @param key The key of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private getInner<K extends EnvironmentKey<Config>>(
+    key: K,
+  ): Result<InferEnvironmentValue<Config, K>, EnvironmentError> {
+    type Res = InferEnvironmentValue<Config, K>;
+
+    const entry = this.variables.get(key);
+
+    if (entry === undefined) {
+      return err(
+        new EnvironmentError(
+          EnvironmentErrorType.VariableUnknownError,
+          key,
+        ).withMessage(
+          'The environment variable is not defined in the configuration. Please check the configuration.',
+        ),
+      );
+    }
+
+    const { config: cfg, name } = entry;
+    const rawRes = this.readRaw(name, cfg);
+
+    if (rawRes.isErr()) {
+      return err(rawRes.inner());
+    }
+
+    const { secrets = [], value: raw } = rawRes._unwrap() ?? {};
+
+    if (raw === undefined) {
+      if (cfg.default !== undefined) {
+        return ok(cfg.default as Res);
+      }
+
+      if (cfg.requiredWhen !== undefined) {
+        const reason = this.checkCondition(cfg.requiredWhen);
+
+        if (reason === undefined) {
+          return ok(undefined as Res);
+        }
+
+        return err(
+          new EnvironmentError(
+            EnvironmentErrorType.VariableNotFoundError,
+            name,
+            cfg,
+          ).withMessage(
+            `The environment variable ${name} is required because ${reason}`,
+          ),
+        );
+      }
+
+      return err(
+        new EnvironmentError(
+          EnvironmentErrorType.VariableNotFoundError,
+          name,
+          cfg,
+        ),
+      );
+    }
+
+    // The raw value is resolved first, since a cached value is only valid for it
+    const cached = this.cache.get(key);
+
+    if (cached?.raw === raw) {
+      return ok(cached.value as Res);
+    }
+
+    const result = Environment.constructResult(
+      this.parseValue.bind(this),
+      name,
+      cfg,
+      raw,
+      secrets,
+      this.options.formatMessage,
+    ) as Result<Res, EnvironmentError>;
+
+    // Errors and objects are mutable, so they are not shared between reads
+    if (
+      this.options.cache === true &&
+      result.isOk() &&
+      !['function', 'object'].includes(typeof result._unwrap())
+    ) {
+      this.cache.set(key, { raw, value: result._unwrap() });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the values of an enum variable, building them on first use
+   *
+   * @param cfg The configuration of the environment variable
+   * @returns The values of the enum
+   */
+  private getEnumValues(
+    cfg: EnumEnvironmentVariableConfig<EnumLike>,
+  ): Set<string> {
+    let values = this.enumValues.get(cfg);
+
+    if (values === undefined) {
+      values = new Set(listEnumValues(cfg.enum));
+      this.enumValues.set(cfg, values);
+    }
+
+    return values;
+  }
+
+  /**
+   * Get the compiled pattern of a string variable, compiling it on first use
+   *
+   * @param cfg The configuration of the environment variable
+   * @returns The compiled pattern, or undefined if the variable has no pattern
+   */
+  private getPattern(cfg: StringEnvironmentVariableConfig): RegExp | undefined {
+    if (cfg.pattern === undefined) {
+      return undefined;
+    }
+
+    let compiled = this.patterns.get(cfg);
+
+    if (compiled === undefined) {
+      compiled = isString(cfg.pattern) ? new RegExp(cfg.pattern) : cfg.pattern;
+      this.patterns.set(cfg, compiled);
+    }
+
+    return compiled;
+  }
+
+  /**
+   * Get an environment variable as a boolean
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsBoolean(
+    raw: string,
+    cfg: BooleanEnvironmentVariableConfig,
+  ): Result<boolean, EnvironmentParseFailure> {
+    const {
+      validFalseValues = DEFAULT_VALID_FALSE_VALUES,
+      validTrueValues = DEFAULT_VALID_TRUE_VALUES,
+    } = cfg;
+
+    if (validTrueValues.includes(raw.toLowerCase())) {
+      return ok(true);
+    }
+
+    if (validFalseValues.includes(raw.toLowerCase())) {
+      return ok(false);
+    }
+
+    return Environment.fail(
+      EnvironmentErrorReason.NotABoolean,
+      'the value is not a boolean',
+      { allowed: [...validTrueValues, ...validFalseValues] },
+    );
+  }
+
+  /**
+   * Get an environment variable as a number of bytes
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsBytes(
+    raw: string,
+    cfg: BytesEnvironmentVariableConfig,
+  ): Result<bigint | number, EnvironmentParseFailure> {
+    const res = parseBytes(raw, cfg.unit ?? 'B');
+
+    if (res.isErr()) {
+      return err(res.inner());
+    }
+
+    const bytes = res._unwrap();
+
+    if (cfg.min !== undefined && bytes < cfg.min) {
+      return Environment.fail(
+        EnvironmentErrorReason.BelowMin,
+        'the value is less than the minimum',
+        { min: cfg.min },
+      );
+    }
+
+    if (cfg.max !== undefined && bytes > cfg.max) {
+      return Environment.fail(
+        EnvironmentErrorReason.AboveMax,
+        'the value is greater than the maximum',
+        { max: cfg.max },
+      );
+    }
+
+    return ok(bytes > Number.MAX_SAFE_INTEGER ? bytes : Number(bytes));
+  }
+
+  /**
+   * Check a parsed JSON value against a JSON configuration
+   *
+   * @param value The parsed JSON value
+   * @param cfg The configuration to check the value against
+   * @param path The path of the value, empty for the root
+   * @returns A result with the checked value, or an error
+   */
+  private checkJson(
+    value: unknown,
+    cfg: JsonEnvironmentVariableConfig,
+    path: string,
+  ): Result<unknown, EnvironmentParseFailure> {
+    let checked = value;
+
+    if (cfg.shape !== undefined) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return Environment.fail(
+          EnvironmentErrorReason.NotAnObject,
+          `${Environment.describeJsonPath(path)} is not an object`,
+          { path },
+        );
+      }
+
+      const properties: { [key: string]: unknown } = { ...value };
+
+      for (const [name, field] of Object.entries(cfg.shape)) {
+        const res = this.checkJsonProperty(
+          properties[name],
+          field,
+          path === '' ? name : `${path}.${name}`,
+        );
+
+        if (res.isErr()) {
+          return res;
+        }
+
+        properties[name] = res._unwrap();
+      }
+
+      checked = properties;
+    }
+
+    if (cfg.validate !== undefined) {
+      return cfg.validate(checked).mapErr((reason) => ({
+        details: path === '' ? {} : { path },
+        message: `${Environment.describeJsonPath(path)} is invalid: ${reason}`,
+        reason: EnvironmentErrorReason.Custom,
+      }));
+    }
+
+    return ok(checked);
+  }
+
+  /**
+   * Check a property of a JSON value against an environment variable configuration
+   *
+   * @param value The value of the property
+   * @param cfg The configuration to check the property against
+   * @param path The path of the property
+   * @returns A result with the checked value, or an error
+   */
+  private checkJsonProperty(
+    value: unknown,
+    cfg: EnvironmentVariableConfig,
+    path: string,
+  ): Result<unknown, EnvironmentParseFailure> {
+    const description = Environment.describeJsonPath(path);
+
+    if (value === undefined) {
+      return cfg.default !== undefined
+        ? ok(cfg.default)
+        : Environment.fail(
+            EnvironmentErrorReason.MissingProperty,
+            `${description} is missing`,
+            { path },
+          );
+    }
+
+    switch (cfg.type) {
+      case EnvironmentVariableType.Json:
+        return this.checkJson(value, cfg, path);
+
+      case EnvironmentVariableType.List:
+        if (Array.isArray(value)) {
+          return this.checkJsonList(value, cfg, path);
+        }
+        break;
+
+      case EnvironmentVariableType.Boolean:
+        if (typeof value !== 'boolean') {
+          return Environment.fail(
+            EnvironmentErrorReason.NotABoolean,
+            `${description} is not a boolean`,
+            { path },
+          );
+        }
+
+        return ok(value);
+
+      case EnvironmentVariableType.Number:
+        if (typeof value !== 'number') {
+          return Environment.fail(
+            EnvironmentErrorReason.NotANumber,
+            `${description} is not a number`,
+            { path },
+          );
+        }
+        break;
+
+      case EnvironmentVariableType.String:
+        if (typeof value !== 'string') {
+          return Environment.fail(
+            EnvironmentErrorReason.NotAString,
+            `${description} is not a string`,
+            { path },
+          );
+        }
+        break;
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return Environment.fail(
+        EnvironmentErrorReason.NotAString,
+        `${description} is not a string`,
+        { path },
+      );
+    }
+
+    return this.parseValue(String(value), cfg).mapErr((failure) => ({
+      details: { ...failure.details, path },
+      message: `${description} is invalid: ${failure.message}`,
+      reason: failure.reason,
+    }));
+  }
+
+  /**
+   * Check a JSON array against a list configuration
+   *
+   * @param values The items of the array
+   * @param cfg The configuration to check the array against
+   * @param path The path of the array
+   * @returns A result with the checked items, or an error
+   */
+  private checkJsonList(
+    values: unknown[],
+    cfg: ListEnvironmentVariableConfig<EnvironmentVariableConfig>,
+    path: string,
+  ): Result<unknown[], EnvironmentParseFailure> {
+    const description = Environment.describeJsonPath(path);
+
+    if (cfg.minItems !== undefined && values.length < cfg.minItems) {
+      return Environment.fail(
+        EnvironmentErrorReason.TooFewItems,
+        `${description} has fewer than ${cfg.minItems} items`,
+        { min: cfg.minItems, path },
+      );
+    }
+
+    if (cfg.maxItems !== undefined && values.length > cfg.maxItems) {
+      return Environment.fail(
+        EnvironmentErrorReason.TooManyItems,
+        `${description} has more than ${cfg.maxItems} items`,
+        { max: cfg.maxItems, path },
+      );
+    }
+
+    const checked: unknown[] = [];
+
+    for (const [index, value] of values.entries()) {
+      const res = this.checkJsonProperty(value, cfg.items, `${path}[${index}]`);
+
+      if (res.isErr()) {
+        return err(res.inner());
+      }
+
+      if (cfg.unique === true && checked.includes(res._unwrap())) {
+        return Environment.fail(
+          EnvironmentErrorReason.DuplicateItem,
+          `${description} has a duplicate item at index ${index}`,
+          { index, path },
+        );
+      }
+
+      checked.push(res._unwrap());
+    }
+
+    return ok(checked);
+  }
+
+  /**
+   * Get an environment variable as a CIDR network
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsCidr(
+    raw: string,
+    cfg: CidrEnvironmentVariableConfig,
+  ): Result<CidrNetwork, EnvironmentParseFailure> {
+    const [address, prefix, ...rest] = raw.split('/');
+
+    if (prefix === undefined || rest.length > 0) {
+      return Environment.fail(
+        EnvironmentErrorReason.NotACidr,
+        'the value is not in CIDR notation (e.g. 10.0.0.0/8)',
+      );
+    }
+
+    const family = isIP(address);
+
+    if (family === 0 || address.includes('%')) {
+      return Environment.fail(
+        EnvironmentErrorReason.NotAnIpAddress,
+        'the address is not a valid IP address',
+      );
+    }
+
+    if (cfg.family !== undefined && family !== cfg.family) {
+      return Environment.fail(
+        EnvironmentErrorReason.FamilyNotAllowed,
+        `the address is not an IPv${cfg.family} address`,
+        { actual: family, allowed: [cfg.family] },
+      );
+    }
+
+    const bits = family === 4 ? 32 : 128;
+
+    if (!/^\d+$/.test(prefix) || Number(prefix) > bits) {
+      return Environment.fail(
+        EnvironmentErrorReason.InvalidPrefixLength,
+        `the prefix length is not a number from 0 to ${bits}`,
+        { max: bits, min: 0 },
+      );
+    }
+
+    const hostMask = (1n << BigInt(bits - Number(prefix))) - 1n;
+
+    if ((ipToBigInt(address) & hostMask) !== 0n) {
+      return Environment.fail(
+        EnvironmentErrorReason.HostBitsSet,
+        'the address has bits set outside the prefix',
+      );
+    }
+
+    return ok({
+      address,
+      family: family as 4 | 6,
+      prefixLength: Number(prefix),
+    });
+  }
+
+  /**
+   * Get an environment variable using its user-supplied parser
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsCustom<T>(
+    raw: string,
+    cfg: CustomEnvironmentVariableConfig<T>,
+  ): Result<T, EnvironmentParseFailure> {
+    return cfg.parse(raw).mapErr((message) => ({
+      details: {},
+      message,
+      reason: EnvironmentErrorReason.Custom,
+    }));
+  }
+
+  /**
+   * Get an environment variable as a duration
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsDuration(
+    raw: string,
+    cfg: DurationEnvironmentVariableConfig,
+  ): Result<Duration, EnvironmentParseFailure> {
+    let duration: Duration;
+
+    // An empty value would otherwise be read as the number 0
+    if (raw.trim() === '' || isNaN(Number(raw))) {
+      const milliseconds = parseDuration(raw);
+
+      if (milliseconds === undefined) {
+        return Environment.fail(
+          EnvironmentErrorReason.NotADuration,
+          'the value is not a valid duration (e.g. 30s, 1m30s or PT5M)',
+        );
+      }
+
+      duration = Duration.from(milliseconds, 'milliseconds');
+    } else {
+      duration = Duration.from(Number(raw), cfg.unit);
+    }
+
+    if (cfg.min !== undefined && duration.seconds() < cfg.min.seconds()) {
+      return Environment.fail(
+        EnvironmentErrorReason.BelowMin,
+        'the duration is shorter than the minimum',
+        { min: cfg.min.milliseconds() },
+      );
+    }
+
+    if (cfg.max !== undefined && duration.seconds() > cfg.max.seconds()) {
+      return Environment.fail(
+        EnvironmentErrorReason.AboveMax,
+        'the duration is longer than the maximum',
+        { max: cfg.max.milliseconds() },
+      );
+    }
+
+    return ok(duration);
+  }
+
+  /**
+   * Get an environment variable as an enum
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsEnum<T extends EnumLike>(
+    raw: string,
+    cfg: EnumEnvironmentVariableConfig<T>,
+  ): Result<EnumValue<T>, EnvironmentParseFailure> {
+    const values = this.getEnumValues(cfg);
+
+    if (!values.has(raw)) {
+      const allowed = [...values];
+      const closest =
+        cfg.sensitive === true
+          ? undefined
+          : Environment.findClosest(raw, allowed.map(String));
+
+      return Environment.fail(
+        EnvironmentErrorReason.NotInEnum,
+        'the value is not in the enum',
+        {
+          allowed,
+          ...(closest === undefined ? {} : { closest }),
+        },
+      );
+    }
+
+    return ok(raw as EnumValue<T>);
+  }
+
+  /**
+   * Get an environment variable as a host
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsHost(
+    raw: string,
+    cfg: HostEnvironmentVariableConfig,
+  ): Result<string, EnvironmentParseFailure> {
+    const family = getHostFamily(raw);
+
+    if (family === undefined) {
+      return Environment.fail(
+        EnvironmentErrorReason.NotAHost,
+        'the host is not a valid hostname or IP address',
+      );
+    }
+
+    if (cfg.families !== undefined && !cfg.families.includes(family)) {
+      const expected = cfg.families
+        .map((allowed) => HOST_FAMILY_DESCRIPTIONS[allowed])
+        .join(' or ');
+
+      return Environment.fail(
+        EnvironmentErrorReason.FamilyNotAllowed,
+        `the host is ${HOST_FAMILY_DESCRIPTIONS[family]}, expected ${expected}`,
+        { actual: family, allowed: cfg.families },
+      );
+    }
+
+    return ok(raw);
+  }
+
+  /**
+   * Get an environment variable as a host and a port
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsHostPort(
+    raw: string,
+    cfg: HostPortEnvironmentVariableConfig,
+  ): Result<HostPort, EnvironmentParseFailure> {
+    const bracketed = /^\[([^\]]*)\](?::(.*))?$/.exec(raw);
+    let host = raw;
+    let port: string | undefined;
+
+    if (bracketed !== null) {
+      [, host, port] = bracketed;
+
+      if (isIP(host) !== 6) {
+        return Environment.fail(
+          EnvironmentErrorReason.NotAnIpAddress,
+          'the host in brackets is not an IPv6 address',
+        );
+      }
+    } else if (isIP(raw) !== 6 && raw.includes(':')) {
+      host = raw.slice(0, raw.lastIndexOf(':'));
+      port = raw.slice(raw.lastIndexOf(':') + 1);
+
+      if (host.includes(':')) {
+        return Environment.fail(
+          EnvironmentErrorReason.UnbracketedIpv6,
+          'IPv6 addresses must be in brackets when a port is given (e.g. [::1]:8080)',
+        );
+      }
+    }
+
+    const hostRes = this.parseAsHost(host, {
+      families: cfg.families,
+      type: EnvironmentVariableType.Host,
+    });
+
+    if (hostRes.isErr()) {
+      return err(hostRes.inner());
+    }
+
+    if (port === undefined) {
+      return cfg.defaultPort === undefined
+        ? Environment.fail(
+            EnvironmentErrorReason.MissingPort,
+            'the value does not have a port and there is no default port',
+          )
+        : ok({ host, port: cfg.defaultPort });
+    }
+
+    return this.parseAsPort(port).map((parsed) => ({ host, port: parsed }));
+  }
+
+  /**
+   * Get an environment variable as JSON, checking it against its shape and validator
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsJson<T>(
+    raw: string,
+    cfg: JsonEnvironmentVariableConfig<T>,
+  ): Result<T, EnvironmentParseFailure> {
+    let value: unknown;
+
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return Environment.describeJsonError(raw);
+    }
+
+    return this.checkJson(value, cfg, '') as Result<T, EnvironmentParseFailure>;
+  }
+
+  /**
+   * Get an environment variable as a list, parsing each item with the item configuration
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsList<T extends EnvironmentVariableConfig>(
+    raw: string,
+    cfg: ListEnvironmentVariableConfig<T>,
+  ): Result<Array<InferEnvironmentVariableType<T>>, EnvironmentParseFailure> {
+    const {
+      maxItems,
+      minItems,
+      separator = DEFAULT_LIST_SEPARATOR,
+      unique,
+    } = cfg;
+
+    const items =
+      raw.trim() === '' ? [] : raw.split(separator).map((item) => item.trim());
+
+    if (minItems !== undefined && items.length < minItems) {
+      return Environment.fail(
+        EnvironmentErrorReason.TooFewItems,
+        `the list has fewer than ${minItems} items`,
+        { min: minItems },
+      );
+    }
+
+    if (maxItems !== undefined && items.length > maxItems) {
+      return Environment.fail(
+        EnvironmentErrorReason.TooManyItems,
+        `the list has more than ${maxItems} items`,
+        { max: maxItems },
+      );
+    }
+
+    const values: Array<InferEnvironmentVariableType<T>> = [];
+    const seen = new Set<unknown>();
+
+    for (const [index, item] of items.entries()) {
+      const parsed = this.parseValue(item, cfg.items);
+
+      if (parsed.isErr()) {
+        const failure = parsed.inner();
+
+        return err({
+          details: { ...failure.details, index },
+          message: `the item at index ${index} is invalid: ${failure.message}`,
+          reason: failure.reason,
+        });
+      }
+
+      const value = parsed._unwrap() as InferEnvironmentVariableType<T>;
+      const identity =
+        typeof value === 'object' && value !== null ? item : value;
+
+      if (unique === true && seen.has(identity)) {
+        return Environment.fail(
+          EnvironmentErrorReason.DuplicateItem,
+          `the item at index ${index} is a duplicate`,
+          { index },
+        );
+      }
+
+      seen.add(identity);
+      values.push(value);
+    }
+
+    return ok(values);
+  }
+
+  /**
+   * Get an environment variable as a number
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsNumber(
+    raw: string,
+    cfg: NumberEnvironmentVariableConfig,
+  ): Result<number, EnvironmentParseFailure> {
+    const parsed = Number(raw);
+
+    if (isNaN(parsed)) {
+      return Environment.fail(
+        EnvironmentErrorReason.NotANumber,
+        'the value is not a number',
+      );
+    }
+
+    if (cfg.format === 'integer' && !Number.isInteger(parsed)) {
+      return Environment.fail(
+        EnvironmentErrorReason.NotAnInteger,
+        'the value is not an integer',
+      );
+    }
+
+    if (cfg.min !== undefined && parsed < cfg.min) {
+      return Environment.fail(
+        EnvironmentErrorReason.BelowMin,
+        'the value is less than the minimum',
+        { min: cfg.min },
+      );
+    }
+
+    if (cfg.max !== undefined && parsed > cfg.max) {
+      return Environment.fail(
+        EnvironmentErrorReason.AboveMax,
+        'the value is greater than the maximum',
+        { max: cfg.max },
+      );
+    }
+
+    return ok(parsed);
+  }
+
+  /**
+   * Get an environment variable as a port
+   *
+   * @param raw The raw value of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsPort(raw: string): Result<number, EnvironmentParseFailure> {
+    const port = Number(raw);
+
+    if (!/^\d+$/.test(raw) || port < 1 || port > MAX_PORT) {
+      return Environment.fail(
+        EnvironmentErrorReason.NotAPort,
+        `the port is not a number from 1 to ${MAX_PORT}`,
+        { max: MAX_PORT, min: 1 },
+      );
+    }
+
+    return ok(port);
   }
 
   /**
@@ -374,19 +1796,453 @@ export class Environment<Config extends EnvironmentConfig> {
   private parseAsString(
     raw: string,
     cfg: StringEnvironmentVariableConfig,
-  ): Result<string, string> {
-    if (cfg.pattern !== undefined) {
-      const compiled = isString(cfg.pattern)
-        ? new RegExp(cfg.pattern)
-        : cfg.pattern;
+  ): Result<string, EnvironmentParseFailure> {
+    const compiled = this.getPattern(cfg);
 
+    if (compiled !== undefined) {
       if (!compiled.test(raw)) {
-        return err('the value does not match the pattern');
+        return Environment.fail(
+          EnvironmentErrorReason.PatternMismatch,
+          'the value does not match the pattern',
+          { pattern: compiled.source },
+        );
       }
     } else if (cfg.shouldAllowEmpty !== true && raw.trim() === '') {
-      return err('the value is empty');
+      return Environment.fail(
+        EnvironmentErrorReason.Empty,
+        'the value is empty',
+      );
     }
 
     return ok(raw);
   }
+
+  /**
+   * Get an environment variable as a URL
+   *
+   * @param raw The raw value of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the value of the environment variable, or an error
+   */
+  private parseAsUrl(
+    raw: string,
+    cfg: UrlEnvironmentVariableConfig,
+  ): Result<URL, EnvironmentParseFailure> {
+    let url: URL;
+
+    try {
+      url = new URL(raw);
+    } catch {
+      return Environment.fail(
+        EnvironmentErrorReason.NotAUrl,
+        'the value is not a valid URL',
+      );
+    }
+
+    const protocol = url.protocol.slice(0, -1);
+
+    if (cfg.protocols !== undefined) {
+      const protocols = cfg.protocols.map((p) =>
+        p.replace(/:$/, '').toLowerCase(),
+      );
+
+      if (!protocols.includes(protocol)) {
+        return Environment.fail(
+          EnvironmentErrorReason.ProtocolNotAllowed,
+          `the protocol "${protocol}" is not one of ${protocols.join(', ')}`,
+          { actual: protocol, allowed: protocols },
+        );
+      }
+    }
+
+    if (url.hostname === '') {
+      return Environment.fail(
+        EnvironmentErrorReason.MissingHost,
+        'the URL has no host',
+      );
+    }
+
+    if (cfg.requirePort === true && url.port === '') {
+      return Environment.fail(
+        EnvironmentErrorReason.MissingPort,
+        'the URL has no port',
+      );
+    }
+
+    if (
+      cfg.allowCredentials !== true &&
+      (url.username !== '' || url.password !== '')
+    ) {
+      return Environment.fail(
+        EnvironmentErrorReason.CredentialsNotAllowed,
+        'the URL must not contain credentials',
+      );
+    }
+
+    if (cfg.stripTrailingSlash === true) {
+      url.pathname = url.pathname.replace(/\/+$/, '');
+    }
+
+    return ok(url);
+  }
+
+  /**
+   * Parse a raw value according to the type of its configuration
+   *
+   * @param raw The raw value to parse
+   * @param cfg The configuration to parse the value with
+   * @returns A result with the parsed value, or an error
+   */
+  private parseValue(
+    raw: string,
+    cfg: EnvironmentVariableConfig,
+  ): Result<unknown, EnvironmentParseFailure> {
+    switch (cfg.type) {
+      case EnvironmentVariableType.String:
+        return this.parseAsString(raw, cfg);
+
+      case EnvironmentVariableType.Number:
+        return this.parseAsNumber(raw, cfg);
+
+      case EnvironmentVariableType.Boolean:
+        return this.parseAsBoolean(raw, cfg);
+
+      case EnvironmentVariableType.Enum:
+        return this.parseAsEnum(raw, cfg);
+
+      case EnvironmentVariableType.Duration:
+        return this.parseAsDuration(raw, cfg);
+
+      case EnvironmentVariableType.Custom:
+        return this.parseAsCustom(raw, cfg);
+
+      case EnvironmentVariableType.List:
+        return this.parseAsList(raw, cfg);
+
+      case EnvironmentVariableType.Json:
+        return this.parseAsJson(raw, cfg);
+
+      case EnvironmentVariableType.Url:
+        return this.parseAsUrl(raw, cfg);
+
+      case EnvironmentVariableType.Bytes:
+        return this.parseAsBytes(raw, cfg);
+
+      case EnvironmentVariableType.Port:
+        return this.parseAsPort(raw);
+
+      case EnvironmentVariableType.Host:
+        return this.parseAsHost(raw, cfg);
+
+      case EnvironmentVariableType.HostPort:
+        return this.parseAsHostPort(raw, cfg);
+
+      case EnvironmentVariableType.Cidr:
+        return this.parseAsCidr(raw, cfg);
+    }
+  }
+
+  /**
+   * Compile the patterns and build the enum values of a configuration and the
+   * configurations nested in it, so that they are not rebuilt on every read
+   *
+   * @param cfg The configuration of the environment variable
+   */
+  private prepareConfig(cfg: EnvironmentVariableConfig): void {
+    switch (cfg.type) {
+      case EnvironmentVariableType.String:
+        this.getPattern(cfg);
+        break;
+
+      case EnvironmentVariableType.Enum:
+        this.getEnumValues(cfg);
+        break;
+
+      case EnvironmentVariableType.List:
+        this.prepareConfig(cfg.items);
+        break;
+
+      case EnvironmentVariableType.Json:
+        for (const property of Object.values(cfg.shape ?? {})) {
+          this.prepareConfig(property);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Read the raw value of an environment variable, expanding references to
+   * other variables if enabled
+   *
+   * @param key The key of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the raw value of the environment variable and the
+   * secrets expanded into it, undefined if it is unset, or an error
+   */
+  private readRaw(
+    key: string,
+    cfg: EnvironmentVariableConfig,
+  ): Result<InterpolatedValue | undefined, EnvironmentError> {
+    const sourceRes = this.readSource(key, cfg);
+
+    if (sourceRes.isErr()) {
+      return err(sourceRes.inner());
+    }
+
+    const source = sourceRes._unwrap();
+
+    if (source === undefined) {
+      return ok(undefined);
+    }
+
+    // Secret files are read as they are, so that secrets may contain `$`
+    if (source.secret || this.options.interpolate !== true) {
+      return ok({ secrets: [], value: source.raw });
+    }
+
+    return interpolate(
+      key,
+      source.raw,
+      (name) => this.readReference(name),
+      cfg,
+      (name) => this.names.get(name)?.config.sensitive === true,
+    );
+  }
+
+  /**
+   * Read the raw value of a variable referenced by another. Variables in the
+   * configuration are read from their aliases and secret files too.
+   *
+   * @param name The name of the referenced variable
+   * @returns The raw value of the variable, or undefined if it is unset or cannot be read
+   */
+  private readReference(name: string): string | undefined {
+    const entry = this.names.get(name);
+
+    if (entry === undefined) {
+      return this.activeStore()[name];
+    }
+
+    const res = this.readSource(name, entry.config);
+
+    // A variable that cannot be read is reported on its own
+    if (res.isErr()) {
+      return undefined;
+    }
+
+    const source = res._unwrap();
+
+    // References are expanded in referenced values, but not in secret files
+    return source?.secret === true
+      ? source.raw.replace(/\$/g, '$$$$')
+      : source?.raw;
+  }
+
+  /**
+   * Report that a deprecated alias of an environment variable is in use,
+   * once per alias
+   *
+   * @param alias The alias in use
+   * @param name The name of the environment variable
+   */
+  private reportDeprecatedAlias(alias: string, name: string): void {
+    if (this.reportedAliases.has(alias)) {
+      return;
+    }
+
+    this.reportedAliases.add(alias);
+
+    const { onDeprecatedAlias = DEFAULT_DEPRECATED_ALIAS_HANDLER } =
+      this.options;
+
+    onDeprecatedAlias(alias, name);
+  }
+
+  /**
+   * Read the value of an environment variable from a secret file
+   *
+   * @param key The key of the environment variable
+   * @param fileKey The key of the environment variable holding the path of the file
+   * @param file The path of the file
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the trimmed contents of the file, or an error
+   */
+  private readSecretFile(
+    key: string,
+    fileKey: string,
+    file: string,
+    cfg: EnvironmentVariableConfig,
+  ): Result<string, EnvironmentError> {
+    try {
+      return ok(fs.readFileSync(file, 'utf-8').trim());
+    } catch (error) {
+      const { code = '' } = error as NodeJS.ErrnoException;
+      const reason = SECRET_FILE_ERROR_REASONS[code] ?? String(error);
+
+      return err(
+        new EnvironmentError(
+          EnvironmentErrorType.VariableFileError,
+          key,
+          cfg,
+        ).withMessage(
+          `Error reading env var ${key} from ${fileKey} (${file}): ${reason}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Read the raw value of an environment variable from the store or one of
+   * its aliases, falling back to a secret file if enabled
+   *
+   * @param key The key of the environment variable
+   * @param cfg The configuration of the environment variable
+   * @returns A result with the raw value and whether it was read from a secret
+   * file, undefined if it is unset, or an error
+   */
+  private readSource(
+    key: string,
+    cfg: EnvironmentVariableConfig,
+  ): Result<{ raw: string; secret: boolean } | undefined, EnvironmentError> {
+    const sources = this.findSources(key, cfg);
+
+    if (new Set(sources.map((source) => this.activeStore()[source])).size > 1) {
+      return err(
+        new EnvironmentError(
+          EnvironmentErrorType.VariableConflictError,
+          key,
+          cfg,
+        ).withMessage(
+          `The environment variables ${sources.join(', ')} are set to different values. Please set only ${key}.`,
+        ),
+      );
+    }
+
+    for (const source of sources) {
+      if (source !== key) {
+        this.reportDeprecatedAlias(source, key);
+      }
+    }
+
+    const [source = key] = sources;
+    const raw = this.activeStore()[source];
+
+    if (this.options.readSecretFiles === true) {
+      const fileKey = `${key}${SECRET_FILE_SUFFIX}`;
+      const file = this.activeStore()[fileKey];
+
+      if (file !== undefined) {
+        if (raw !== undefined) {
+          return err(
+            new EnvironmentError(
+              EnvironmentErrorType.VariableConflictError,
+              key,
+              cfg,
+            ).withMessage(
+              `Both ${source} and ${fileKey} are set. Please set only one of them.`,
+            ),
+          );
+        }
+
+        return this.readSecretFile(key, fileKey, file, cfg).map((value) => ({
+          raw: value,
+          secret: true,
+        }));
+      }
+    }
+
+    return ok(raw === undefined ? undefined : { raw, secret: false });
+  }
+
+  /**
+   * Restore entries of the store exactly, unsetting those that were unset
+   *
+   * @param entries The entries of the store to restore
+   */
+  private restoreEntries(entries: EnvironmentStore): void {
+    this.applyChange(() => {
+      for (const [name, value] of Object.entries(entries)) {
+        if (value === undefined) {
+          delete this.store[name];
+        } else {
+          this.store[name] = value;
+        }
+      }
+    });
+  }
+
+  /**
+   * Run a function with environment variables set in a copy of the store
+   * that is only visible within the async context of the function
+   *
+   * @param vars The environment variables to set
+   * @param fn The function to run
+   * @returns The result of the function
+   */
+  private runIsolated<Res>(
+    vars: { [K in EnvironmentKey<Config>]?: string },
+    fn: () => Res,
+  ): Res {
+    const store = { ...this.activeStore() };
+
+    for (const [k, v] of Object.entries(vars) as Array<
+      [EnvironmentKey<Config>, string | undefined]
+    >) {
+      this.writeVar(store, k, v);
+    }
+
+    return this.overlay.run(store, fn);
+  }
+
+  /**
+   * Watch the files of the source of the environment. Their directories are
+   * watched so that files replaced by editors or created later are noticed.
+   * Directories that do not exist are skipped, as they cannot be watched.
+   *
+   * @param onChange The function called when one of the files changes
+   * @returns The watchers of the directories
+   */
+  private watchFiles(onChange: () => void): fs.FSWatcher[] {
+    const files = this.options.source?.files ?? [];
+    const directories = new Set(files.map((file) => path.dirname(file)));
+
+    return [...directories]
+      .filter((directory) => fs.existsSync(directory))
+      .map((directory) =>
+        fs.watch(directory, { persistent: false }, (_event, filename) => {
+          if (
+            filename !== null &&
+            files.includes(path.join(directory, filename))
+          ) {
+            onChange();
+          }
+        }),
+      );
+  }
+
+  /**
+   * Write an environment variable to a store, unsetting its aliases
+   *
+   * @param store The store to write to
+   * @param key The key of the environment variable
+   * @param value The value of the environment variable, or undefined to unset it
+   */
+  private writeVar(
+    store: EnvironmentStore,
+    key: EnvironmentKey<Config>,
+    value: string | undefined,
+  ): void {
+    const entry = this.variables.get(key);
+    const name = entry?.name ?? key;
+
+    for (const alias of entry?.config.aliases ?? []) {
+      delete store[alias];
+    }
+
+    if (value === undefined) {
+      delete store[name];
+    } else {
+      store[name] = value;
+    }
+  }
 }
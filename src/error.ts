@@ -3,12 +3,36 @@
  * @author Rowan Gudmundsson
  * @since 1.0.0
  */
-import type { EnvironmentErrorType, EnvironmentVariableConfig } from './types';
+import { inspect } from 'util';
+
+import type {
+  EnvironmentErrorDetails,
+  EnvironmentErrorReason,
+  EnvironmentErrorType,
+  EnvironmentVariableConfig,
+} from './types';
+
+import { REDACTED } from './redact';
 
 /**
  * An error for environment variable errors
  */
 export class EnvironmentError extends Error {
+  /** The details of why the environment variable could not be parsed, if any */
+  public details?: EnvironmentErrorDetails;
+
+  /** The file the error originated from, if any */
+  public file?: string;
+
+  /** The line in the file the error originated from, if any */
+  public line?: number;
+
+  /** The raw value of the environment variable, redacted if it is sensitive */
+  public readonly raw?: string;
+
+  /** The reason the environment variable could not be parsed, if any */
+  public reason?: EnvironmentErrorReason;
+
   constructor(
     /** The type of the error */
     public readonly type: EnvironmentErrorType,
@@ -19,10 +43,51 @@ export class EnvironmentError extends Error {
     /** The configuration of the environment variable */
     public readonly config?: EnvironmentVariableConfig,
 
-    /** The raw value of the environment variable */
-    public readonly raw?: string,
+    raw?: string,
   ) {
     super(`Error getting environment variable ${key}`);
+
+    this.raw = raw !== undefined && config?.sensitive === true ? REDACTED : raw;
+  }
+
+  /**
+   * Get a serializable representation of the error, without the
+   * configuration so that sensitive defaults are not exposed
+   *
+   * @returns The serializable representation of the error
+   */
+  public toJSON(): { [key: string]: unknown } {
+    return {
+      // Byte sizes may be too large for JSON numbers
+      details:
+        this.details &&
+        Object.fromEntries(
+          Object.entries(this.details).map(([name, value]) => [
+            name,
+            typeof value === 'bigint' ? String(value) : value,
+          ]),
+        ),
+      file: this.file,
+      key: this.key,
+      line: this.line,
+      message: this.message,
+      raw: this.raw,
+      reason: this.reason,
+      type: this.type,
+    };
+  }
+
+  /**
+   * Sets the file location the error originated from
+   *
+   * @param file The name of the file
+   * @param line The line number in the file
+   * @returns This error
+   */
+  public withLocation(file: string, line: number): this {
+    this.file = file;
+    this.line = line;
+    return this;
   }
 
   /**
@@ -35,4 +100,59 @@ export class EnvironmentError extends Error {
     this.message = message;
     return this;
   }
+
+  /**
+   * Sets the reason the environment variable could not be parsed
+   *
+   * @param reason The reason
+   * @param details The details of the reason
+   * @returns This error
+   */
+  public withReason(
+    reason: EnvironmentErrorReason,
+    details: EnvironmentErrorDetails = {},
+  ): this {
+    this.reason = reason;
+    this.details = details;
+    return this;
+  }
+
+  /**
+   * Inspect the error without the configuration so that sensitive
+   * defaults are not exposed
+   *
+   * @returns The inspected error
+   */
+  public [inspect.custom](): string {
+    return `${this.stack ?? this.message} ${inspect(this.toJSON())}`;
+  }
+}
+
+/**
+ * An error aggregating every error found while validating an environment
+ */
+export class EnvironmentValidationError extends Error {
+  constructor(
+    /** The errors found while validating the environment */
+    public readonly errors: EnvironmentError[],
+  ) {
+    super(EnvironmentValidationError.summarize(errors));
+  }
+
+  /**
+   * Build a human-readable summary of a list of errors
+   *
+   * @param errors The errors to summarize
+   * @returns A multi-line summary with one line per error
+   */
+  private static summarize(errors: EnvironmentError[]): string {
+    const lines = errors.map(
+      (err) => `  - ${err.key} (${err.type}): ${err.message}`,
+    );
+
+    return [
+      `Environment validation failed with ${errors.length} error${errors.length === 1 ? '' : 's'}:`,
+      ...lines,
+    ].join('\n');
+  }
 }
@@ -0,0 +1,295 @@
+/**
+ * @file Defines a generator for documented `.env.example` files
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type {
+  EnvironmentConfig,
+  EnvironmentVariableCondition,
+  EnvironmentVariableConfig,
+  EnvironmentVariableEntry,
+} from './types';
+
+import { conditionHolds } from './condition';
+import { DEFAULT_LIST_SEPARATOR, MAX_PORT } from './defaults';
+import { listEnumValues } from './enum';
+import { formatRaw } from './format';
+import { flattenConfig } from './group';
+import { EnvironmentVariableType } from './types';
+
+const UNQUOTED_VALUE_PATTERN = /^[^\s#'"`\\]*$/;
+const VALUE_ESCAPES: { [char: string]: string } = {
+  '\t': '\\t',
+  '\n': '\\n',
+  '\r': '\\r',
+  '"': '\\"',
+  '\\': '\\\\',
+};
+
+/**
+ * Options for generating a `.env.example` file
+ */
+export interface EnvExampleOptions {
+  /**
+   * A prefix added to the names of all the variables, as with the
+   * `prefix` option of an environment
+   *
+   * @default ''
+   */
+  prefix?: string;
+}
+
+/**
+ * Generate a documented `.env.example` file from an environment configuration.
+ * Each variable is preceded by comments with its description, type, constraints
+ * and whether it is required. Required variables are set to their example, and
+ * optional ones are commented out with their example or default.
+ *
+ * @param config The configuration of the environment
+ * @param options The options for generating the file
+ * @returns The contents of the file
+ */
+export function generateEnvExample(
+  config: EnvironmentConfig,
+  options: EnvExampleOptions = {},
+): string {
+  const entries = flattenConfig(config, options.prefix);
+  const paths = new Map(entries.map((entry) => [entry.path, entry]));
+  const blocks = entries.map(({ config: cfg, name }) => {
+    const lines = (cfg.description ?? '')
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => `# ${line}`);
+
+    if (cfg.deprecated !== undefined && cfg.deprecated !== false) {
+      lines.push(
+        cfg.deprecated === true
+          ? '# Deprecated'
+          : `# Deprecated: ${cfg.deprecated}`,
+      );
+    }
+
+    lines.push(`# Type: ${describeType(cfg)}`);
+
+    if (cfg.aliases !== undefined && cfg.aliases.length > 0) {
+      lines.push(`# Aliases: ${cfg.aliases.join(', ')}`);
+    }
+
+    const rawDefault =
+      cfg.sensitive === true ? undefined : formatRaw(cfg.default, cfg);
+    let value = cfg.example ?? '';
+
+    if (cfg.default !== undefined) {
+      lines.push(
+        rawDefault === undefined
+          ? '# Optional, has a default'
+          : `# Optional, defaults to ${formatValue(rawDefault)}`,
+      );
+      value = cfg.example ?? rawDefault ?? '';
+    } else if (cfg.requiredWhen !== undefined) {
+      lines.push(
+        `# Required when ${describeCondition(cfg.requiredWhen, paths.get(cfg.requiredWhen.key))}`,
+      );
+    } else {
+      lines.push('# Required');
+    }
+
+    const assignment = `${name}=${formatValue(value)}`;
+
+    lines.push(
+      cfg.default === undefined && cfg.requiredWhen === undefined
+        ? assignment
+        : `# ${assignment}`,
+    );
+
+    return lines.join('\n');
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Describe the bounds of a value
+ *
+ * @param min The minimum value
+ * @param max The maximum value
+ * @returns The descriptions of the bounds that are defined
+ */
+function describeBounds(min: unknown, max: unknown): string[] {
+  return [
+    ...(min === undefined ? [] : [`min ${String(min)}`]),
+    ...(max === undefined ? [] : [`max ${String(max)}`]),
+  ];
+}
+
+/**
+ * Describe the condition under which a variable is required, as it is checked
+ * against the parsed value of the other variable, or its default if it is unset
+ *
+ * @param condition The condition of the variable
+ * @param other The variable the condition refers to, if it is in the configuration
+ * @returns The description of the condition
+ */
+function describeCondition(
+  condition: EnvironmentVariableCondition,
+  other: EnvironmentVariableEntry | undefined,
+): string {
+  const { equals, key, oneOf } = condition;
+  const name = other?.name ?? key;
+  let description = `${name} is set`;
+
+  if (oneOf !== undefined) {
+    description = `${name} is one of ${oneOf.map((item) => JSON.stringify(item)).join(', ')}`;
+  } else if (equals !== undefined) {
+    description = `${name} is ${JSON.stringify(equals)}`;
+  } else {
+    // Without a value to compare with, the condition holds if the value is truthy
+    switch (other?.config.type) {
+      case EnvironmentVariableType.Boolean:
+        description = `${name} is true`;
+        break;
+
+      case EnvironmentVariableType.Bytes:
+      case EnvironmentVariableType.Number:
+      case EnvironmentVariableType.Port:
+        description = `${name} is not 0`;
+        break;
+
+      case EnvironmentVariableType.Host:
+      case EnvironmentVariableType.String:
+        description = `${name} is not empty`;
+        break;
+
+      case EnvironmentVariableType.Custom:
+      case EnvironmentVariableType.Enum:
+      case EnvironmentVariableType.Json:
+        description = `${name} is set to a truthy value`;
+        break;
+    }
+  }
+
+  return other?.config.default !== undefined &&
+    conditionHolds(condition, other.config.default)
+    ? `${description}, as it is by default`
+    : description;
+}
+
+/**
+ * Describe the type of an environment variable and its constraints
+ *
+ * @param cfg The configuration of the environment variable
+ * @returns The description of the type
+ */
+function describeType(cfg: EnvironmentVariableConfig): string {
+  const details: string[] = [];
+  let type: string = cfg.type;
+
+  switch (cfg.type) {
+    case EnvironmentVariableType.String:
+      if (cfg.pattern !== undefined) {
+        details.push(`matching ${new RegExp(cfg.pattern).toString()}`);
+      }
+
+      if (cfg.shouldAllowEmpty === true) {
+        details.push('may be empty');
+      }
+      break;
+
+    case EnvironmentVariableType.Number:
+      if (cfg.format === 'integer') {
+        details.push('integer');
+      }
+
+      details.push(...describeBounds(cfg.min, cfg.max));
+      break;
+
+    case EnvironmentVariableType.Enum:
+      details.push(`one of ${listEnumValues(cfg.enum).join(', ')}`);
+      break;
+
+    case EnvironmentVariableType.Duration:
+      details.push(
+        `e.g. 30s, 1m30s or PT5M, bare numbers are ${cfg.unit}`,
+        ...describeBounds(
+          cfg.min === undefined ? undefined : `${cfg.min.seconds()}s`,
+          cfg.max === undefined ? undefined : `${cfg.max.seconds()}s`,
+        ),
+      );
+      break;
+
+    case EnvironmentVariableType.List:
+      type = `list of ${describeType(cfg.items)}`;
+      details.push(`separated by "${cfg.separator ?? DEFAULT_LIST_SEPARATOR}"`);
+
+      if (cfg.minItems !== undefined) {
+        details.push(`at least ${cfg.minItems} items`);
+      }
+
+      if (cfg.maxItems !== undefined) {
+        details.push(`at most ${cfg.maxItems} items`);
+      }
+
+      if (cfg.unique === true) {
+        details.push('unique');
+      }
+      break;
+
+    case EnvironmentVariableType.Url:
+      if (cfg.protocols !== undefined) {
+        details.push(`protocols ${cfg.protocols.join(', ')}`);
+      }
+
+      if (cfg.requirePort === true) {
+        details.push('with a port');
+      }
+      break;
+
+    case EnvironmentVariableType.Bytes:
+      details.push('e.g. 25MB or 2GiB', ...describeBounds(cfg.min, cfg.max));
+
+      if (cfg.unit !== undefined) {
+        details.push(`bare numbers are ${cfg.unit}`);
+      }
+      break;
+
+    case EnvironmentVariableType.Port:
+      details.push(`1 to ${MAX_PORT}`);
+      break;
+
+    case EnvironmentVariableType.Host:
+    case EnvironmentVariableType.HostPort:
+      if (cfg.families !== undefined) {
+        details.push(cfg.families.join(' or '));
+      }
+
+      if (
+        cfg.type === EnvironmentVariableType.HostPort &&
+        cfg.defaultPort !== undefined
+      ) {
+        details.push(`port defaults to ${cfg.defaultPort}`);
+      }
+      break;
+
+    case EnvironmentVariableType.Cidr:
+      if (cfg.family !== undefined) {
+        details.push(`IPv${cfg.family}`);
+      }
+      break;
+  }
+
+  return details.length === 0 ? type : `${type} (${details.join(', ')})`;
+}
+
+/**
+ * Format a raw value for a dotenv file, quoting it if needed
+ *
+ * @param value The raw value
+ * @returns The formatted value
+ */
+function formatValue(value: string): string {
+  if (UNQUOTED_VALUE_PATTERN.test(value)) {
+    return value;
+  }
+
+  return `"${value.replace(/[\t\n\r"\\]/g, (char) => VALUE_ESCAPES[char])}"`;
+}
@@ -0,0 +1,67 @@
+/**
+ * @file Defines helpers for rendering parsed values back to their raw form
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { Duration } from '@ellefe/ts-core';
+
+import type { EnvironmentVariableConfig } from './types';
+
+import { DEFAULT_LIST_SEPARATOR } from './defaults';
+import { EnvironmentVariableType } from './types';
+
+/**
+ * Render a parsed value back to the raw form it would be parsed from
+ *
+ * @param value The parsed value
+ * @param cfg The configuration of the environment variable
+ * @returns The raw value, or undefined if it cannot be rendered
+ */
+export function formatRaw(
+  value: unknown,
+  cfg: EnvironmentVariableConfig,
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  switch (cfg.type) {
+    case EnvironmentVariableType.Duration:
+      return `${(value as Duration).seconds()}s`;
+
+    case EnvironmentVariableType.Url:
+      return (value as URL).href;
+
+    case EnvironmentVariableType.List: {
+      const items = (value as unknown[]).map((item) =>
+        formatRaw(item, cfg.items),
+      );
+
+      return items.includes(undefined)
+        ? undefined
+        : items.join(cfg.separator ?? DEFAULT_LIST_SEPARATOR);
+    }
+
+    case EnvironmentVariableType.Json:
+      return JSON.stringify(value);
+
+    case EnvironmentVariableType.HostPort: {
+      const { host, port } = value as { host: string; port: number };
+
+      return `${host.includes(':') ? `[${host}]` : host}:${port}`;
+    }
+
+    case EnvironmentVariableType.Cidr: {
+      const { address, prefixLength } = value as {
+        address: string;
+        prefixLength: number;
+      };
+
+      return `${address}/${prefixLength}`;
+    }
+  }
+
+  return ['bigint', 'boolean', 'number', 'string'].includes(typeof value)
+    ? String(value)
+    : undefined;
+}
@@ -0,0 +1,106 @@
+/**
+ * @file Defines groups of environment variables and helpers to resolve their names
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type {
+  EnvironmentConfig,
+  EnvironmentGroupConfig,
+  EnvironmentVariableConfig,
+  EnvironmentVariableEntry,
+} from './types';
+
+/**
+ * List every variable of an environment configuration with its dotted path
+ * and its name in the store. Top level keys are used as names as they are,
+ * keys inside groups are converted to upper snake case.
+ *
+ * @param config The configuration of the environment
+ * @param prefix The prefix to add to the names of the variables
+ * @returns The variables of the configuration
+ */
+export function flattenConfig(
+  config: EnvironmentConfig,
+  prefix = '',
+): EnvironmentVariableEntry[] {
+  return flattenGroup(config, prefix, '', false);
+}
+
+/**
+ * Create a group of environment variables sharing a prefix
+ *
+ * @param prefix The prefix added to the names of the variables in the group
+ * @param vars The variables in the group
+ * @returns The group configuration
+ */
+export function group<C extends EnvironmentConfig>(
+  prefix: string,
+  vars: C,
+): EnvironmentGroupConfig<C> {
+  return {
+    prefix,
+    vars,
+  };
+}
+
+/**
+ * Check whether an entry of an environment configuration is a group
+ *
+ * @param cfg The entry to check
+ * @returns Whether the entry is a group
+ */
+export function isEnvironmentGroup(
+  cfg: EnvironmentGroupConfig | EnvironmentVariableConfig,
+): cfg is EnvironmentGroupConfig {
+  return !('type' in cfg);
+}
+
+/**
+ * Convert a key to the upper snake case name of an environment variable
+ *
+ * @param key The key to convert (e.g. `poolMax`)
+ * @returns The name of the environment variable (e.g. `POOL_MAX`)
+ */
+export function toVariableName(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * List every variable of a group
+ *
+ * @param config The variables of the group
+ * @param prefix The prefix to add to the names of the variables
+ * @param path The dotted path of the group
+ * @param isNested Whether the group is nested in another group
+ * @returns The variables of the group
+ */
+function flattenGroup(
+  config: EnvironmentConfig,
+  prefix: string,
+  path: string,
+  isNested: boolean,
+): EnvironmentVariableEntry[] {
+  const entries: EnvironmentVariableEntry[] = [];
+
+  for (const [key, cfg] of Object.entries(config)) {
+    if (cfg === undefined) {
+      continue;
+    }
+
+    const entryPath = path === '' ? key : `${path}.${key}`;
+
+    if (isEnvironmentGroup(cfg)) {
+      entries.push(
+        ...flattenGroup(cfg.vars, `${prefix}${cfg.prefix}`, entryPath, true),
+      );
+    } else {
+      entries.push({
+        config: cfg,
+        name: `${prefix}${isNested ? toVariableName(key) : key}`,
+        path: entryPath,
+      });
+    }
+  }
+
+  return entries;
+}
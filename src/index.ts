@@ -1,3 +1,10 @@
+export * from './declaration';
+export * from './dotenv';
 export * from './environment';
 export * from './error';
+export * from './example';
+export * from './group';
+export * from './interpolation';
+export * from './redact';
+export * from './schema';
 export * from './variable';
@@ -0,0 +1,199 @@
+/**
+ * @file Defines variable interpolation for raw environment variable values
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { Result } from '@ellefe/ts-core';
+
+import { err, ok } from '@ellefe/ts-core';
+
+import type { EnvironmentVariableConfig } from './types';
+
+import { EnvironmentError } from './error';
+import { REDACTED, redact } from './redact';
+import { EnvironmentErrorType } from './types';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * A raw value with its references expanded
+ */
+export interface InterpolatedValue {
+  /**
+   * The expanded values of the sensitive variables referenced by the value,
+   * which should be redacted wherever the value is shown
+   */
+  secrets: string[];
+
+  /** The expanded value */
+  value: string;
+}
+
+/**
+ * Expand references to other variables in a raw value.
+ *
+ * Supports:
+ * - `${VAR}`, replaced with the value of `VAR`
+ * - `${VAR:-fallback}`, replaced with the value of `VAR` or `fallback` if `VAR` is unset or empty
+ * - `$$`, replaced with a literal `$`
+ *
+ * Referenced values are expanded recursively.
+ *
+ * @param key The key of the environment variable being expanded
+ * @param raw The raw value of the environment variable
+ * @param lookup A function returning the raw value of a referenced variable
+ * @param cfg The configuration of the environment variable, whose raw value is
+ * redacted from errors if it is sensitive
+ * @param isSensitive A function returning whether a referenced variable is
+ * sensitive, in which case its value is reported in the secrets of the result
+ * and redacted from errors
+ * @returns A result with the expanded value, or an error if a reference is unresolved or circular
+ */
+export function interpolate(
+  key: string,
+  raw: string,
+  lookup: (name: string) => string | undefined,
+  cfg?: EnvironmentVariableConfig,
+  isSensitive: (name: string) => boolean = () => false,
+): Result<InterpolatedValue, EnvironmentError> {
+  const sensitive = cfg?.sensitive === true;
+  const quote = (snippet: string) => (sensitive ? REDACTED : `"${snippet}"`);
+  const secrets: string[] = [];
+  const expanded = expand(raw, [key], { isSensitive, lookup, secrets }, quote);
+
+  if (expanded.isErr()) {
+    return err(
+      new EnvironmentError(
+        EnvironmentErrorType.VariableInterpolationError,
+        key,
+        cfg,
+      ).withMessage(
+        `Error interpolating env var ${key}: ${sensitive ? redact(expanded.inner(), raw) : expanded.inner()}`,
+      ),
+    );
+  }
+
+  return ok({ secrets, value: expanded._unwrap() });
+}
+
+/**
+ * The referenced variables of an expansion and the secrets found in them
+ */
+interface ExpansionContext {
+  /** Returns whether a referenced variable is sensitive */
+  isSensitive: (name: string) => boolean;
+
+  /** Returns the raw value of a referenced variable */
+  lookup: (name: string) => string | undefined;
+
+  /** The expanded values of the sensitive variables referenced so far */
+  secrets: string[];
+}
+
+/**
+ * Expand references in a value
+ *
+ * @param value The value to expand
+ * @param stack The variables currently being expanded, used to detect cycles
+ * @param context The referenced variables and the secrets found in them
+ * @param quote A function quoting parts of the value in error messages
+ * @returns A result with the expanded value, or the reason it could not be expanded
+ */
+function expand(
+  value: string,
+  stack: string[],
+  context: ExpansionContext,
+  quote: (snippet: string) => string,
+): Result<string, string> {
+  let out = '';
+  let i = 0;
+
+  while (i < value.length) {
+    if (value[i] !== '$' || (value[i + 1] !== '$' && value[i + 1] !== '{')) {
+      out += value[i];
+      i++;
+      continue;
+    }
+
+    if (value[i + 1] === '$') {
+      out += '$';
+      i += 2;
+      continue;
+    }
+
+    const end = findClosingBrace(value, i + 2);
+
+    if (end === -1) {
+      return err(`unterminated reference ${quote(value.slice(i))}`);
+    }
+
+    const body = value.slice(i + 2, end);
+    const separator = body.indexOf(':-');
+    const name = separator === -1 ? body : body.slice(0, separator);
+    const fallback = separator === -1 ? undefined : body.slice(separator + 2);
+
+    if (!NAME_PATTERN.test(name)) {
+      return err(`invalid reference ${quote(`\${${body}}`)}`);
+    }
+
+    if (stack.includes(name)) {
+      return err(`circular reference ${[...stack, name].join(' -> ')}`);
+    }
+
+    const referenced = context.lookup(name);
+    let expanded: Result<string, string>;
+
+    if (
+      referenced !== undefined &&
+      (referenced !== '' || fallback === undefined)
+    ) {
+      const sensitive = context.isSensitive(name);
+
+      expanded = expand(
+        referenced,
+        [...stack, name],
+        context,
+        sensitive ? () => REDACTED : quote,
+      );
+
+      if (sensitive && expanded.isOk()) {
+        context.secrets.push(expanded._unwrap());
+      }
+    } else if (fallback !== undefined) {
+      expanded = expand(fallback, stack, context, quote);
+    } else {
+      return err(`unresolved reference to ${name}`);
+    }
+
+    if (expanded.isErr()) {
+      return expanded;
+    }
+
+    out += expanded._unwrap();
+    i = end + 1;
+  }
+
+  return ok(out);
+}
+
+/**
+ * Find the index of the brace closing a reference, accounting for nested references
+ *
+ * @param value The value to search
+ * @param start The index just after the opening brace
+ * @returns The index of the closing brace, or -1 if there is none
+ */
+function findClosingBrace(value: string, start: number): number {
+  let depth = 1;
+
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '$' && value[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (value[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,154 @@
+/**
+ * @file Defines helpers for reporting JSON syntax errors
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+
+const WHITESPACE = ' \t\n\r';
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const ESCAPE_PATTERN = /\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/y;
+const LITERALS = ['true', 'false', 'null'];
+
+/**
+ * Find the position of the first syntax error in a JSON string.
+ * `JSON.parse` does not report the position of every error consistently
+ * across Node versions, so the string is scanned instead.
+ *
+ * @param raw The JSON string
+ * @returns The position of the first syntax error, or -1 if the string is valid JSON
+ */
+export function locateJsonError(raw: string): number {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < raw.length && WHITESPACE.includes(raw[pos])) {
+      pos++;
+    }
+  };
+
+  const scanString = (): boolean => {
+    pos++;
+
+    while (pos < raw.length) {
+      if (raw[pos] === '"') {
+        pos++;
+        return true;
+      }
+
+      if (raw[pos] === '\\') {
+        ESCAPE_PATTERN.lastIndex = pos;
+
+        if (!ESCAPE_PATTERN.test(raw)) {
+          return false;
+        }
+
+        pos = ESCAPE_PATTERN.lastIndex;
+      } else if (raw[pos] < ' ') {
+        return false;
+      } else {
+        pos++;
+      }
+    }
+
+    return false;
+  };
+
+  const scanKey = (): boolean => {
+    skipWhitespace();
+
+    if (raw[pos] !== '"' || !scanString()) {
+      return false;
+    }
+
+    skipWhitespace();
+
+    if (raw[pos] !== ':') {
+      return false;
+    }
+
+    pos++;
+    return true;
+  };
+
+  const scanScalar = (): boolean => {
+    if (raw[pos] === '"') {
+      return scanString();
+    }
+
+    const literal = LITERALS.find((lit) => raw.startsWith(lit, pos));
+
+    if (literal !== undefined) {
+      pos += literal.length;
+      return true;
+    }
+
+    NUMBER_PATTERN.lastIndex = pos;
+
+    if (NUMBER_PATTERN.test(raw)) {
+      pos = NUMBER_PATTERN.lastIndex;
+      return true;
+    }
+
+    return false;
+  };
+
+  // The closing characters of the open objects and arrays. They are kept on a
+  // stack rather than scanned recursively so that deep nesting cannot overflow.
+  const closers: string[] = [];
+
+  for (;;) {
+    skipWhitespace();
+
+    const open = raw[pos];
+
+    if (open === '{' || open === '[') {
+      const close = open === '{' ? '}' : ']';
+
+      pos++;
+      skipWhitespace();
+
+      if (raw[pos] !== close) {
+        closers.push(close);
+
+        if (close === '}' && !scanKey()) {
+          return pos;
+        }
+
+        continue;
+      }
+
+      pos++;
+    } else if (!scanScalar()) {
+      return pos;
+    }
+
+    // A value was scanned, so close the containers it ends or move to the next member
+    for (;;) {
+      skipWhitespace();
+
+      if (closers.length === 0) {
+        return pos < raw.length ? pos : -1;
+      }
+
+      const close = closers[closers.length - 1];
+
+      if (raw[pos] === close) {
+        pos++;
+        closers.pop();
+        continue;
+      }
+
+      if (raw[pos] !== ',') {
+        return pos;
+      }
+
+      pos++;
+
+      if (close === '}' && !scanKey()) {
+        return pos;
+      }
+
+      break;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @file Defines helpers for validating network addresses
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import { isIP } from 'net';
+
+import type { HostFamily } from './types';
+
+const MAX_HOSTNAME_LENGTH = 253;
+const HOSTNAME_LABEL_PATTERN = /^(?!-)[a-zA-Z0-9-]{1,63}(?<!-)$/;
+const NUMERIC_LABEL_PATTERN = /^\d+$/;
+
+/**
+ * Get the family of a host
+ *
+ * @param host The host, without brackets around IPv6 addresses
+ * @returns The family of the host, or undefined if it is not a valid host
+ */
+export function getHostFamily(host: string): HostFamily | undefined {
+  switch (isIP(host)) {
+    case 4:
+      return 'ipv4';
+
+    case 6:
+      return 'ipv6';
+  }
+
+  return isHostname(host) ? 'hostname' : undefined;
+}
+
+/**
+ * Convert an IP address to an integer
+ *
+ * @param address A valid IPv4 or IPv6 address
+ * @returns The address as an integer
+ */
+export function ipToBigInt(address: string): bigint {
+  if (isIP(address) === 4) {
+    return address
+      .split('.')
+      .reduce((total, octet) => (total << 8n) + BigInt(octet), 0n);
+  }
+
+  const [head, tail = ''] = address.split('::');
+  const toGroups = (part: string): string[] => {
+    if (part === '') {
+      return [];
+    }
+
+    const groups = part.split(':');
+    const last = groups[groups.length - 1];
+
+    // An IPv6 address may end with an embedded IPv4 address
+    if (last.includes('.')) {
+      const embedded = ipToBigInt(last);
+
+      groups.splice(
+        -1,
+        1,
+        (embedded >> 16n).toString(16),
+        (embedded & 0xffffn).toString(16),
+      );
+    }
+
+    return groups;
+  };
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  const groups = [
+    ...headGroups,
+    ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'),
+    ...tailGroups,
+  ];
+
+  return groups.reduce(
+    (total, group) => (total << 16n) + BigInt(`0x${group}`),
+    0n,
+  );
+}
+
+/**
+ * Check whether a string is a valid hostname. The last label may not be
+ * numeric so that malformed IPv4 addresses are not treated as hostnames.
+ *
+ * @param raw The string to check
+ * @returns Whether the string is a valid hostname
+ */
+function isHostname(raw: string): boolean {
+  if (raw.length > MAX_HOSTNAME_LENGTH) {
+    return false;
+  }
+
+  const labels = (raw.endsWith('.') ? raw.slice(0, -1) : raw).split('.');
+
+  return (
+    labels.every((label) => HOSTNAME_LABEL_PATTERN.test(label)) &&
+    !NUMERIC_LABEL_PATTERN.test(labels[labels.length - 1])
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * @file Defines helpers for redacting sensitive environment variable values
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type { Redacted } from './types';
+
+/**
+ * The value shown in place of a sensitive environment variable value
+ */
+export const REDACTED: Redacted = '[REDACTED]';
+
+/**
+ * Replace every occurrence of a secret in a message
+ *
+ * @param message The message to redact
+ * @param secret The secret to remove from the message
+ * @returns The redacted message
+ */
+export function redact(message: string, secret: string): string {
+  if (secret === '') {
+    return message;
+  }
+
+  return message.split(secret).join(REDACTED);
+}
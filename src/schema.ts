@@ -0,0 +1,292 @@
+/**
+ * @file Defines a converter from environment configurations to JSON Schema
+ * @author Rowan Gudmundsson
+ * @since 1.1.0
+ */
+import type {
+  EnvironmentConfig,
+  EnvironmentVariableCondition,
+  EnvironmentVariableConfig,
+  EnvironmentVariableEntry,
+} from './types';
+
+import { conditionHolds } from './condition';
+import {
+  DEFAULT_VALID_FALSE_VALUES,
+  DEFAULT_VALID_TRUE_VALUES,
+  MAX_PORT,
+} from './defaults';
+import { listEnumValues } from './enum';
+import { formatRaw } from './format';
+import { flattenConfig } from './group';
+import { EnvironmentVariableType } from './types';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Options for converting an environment configuration to JSON Schema
+ */
+export interface JsonSchemaOptions {
+  /**
+   * Whether variables that are not in the configuration are allowed
+   *
+   * @default true
+   */
+  additionalProperties?: boolean;
+
+  /**
+   * A prefix added to the names of all the variables, as with the
+   * `prefix` option of an environment
+   *
+   * @default ''
+   */
+  prefix?: string;
+
+  /** The title of the schema */
+  title?: string;
+}
+
+/**
+ * Convert an environment configuration to a JSON Schema document describing
+ * an object of its variables by name. Variables are described with the
+ * constraints their parsers check, their defaults (unless they are sensitive)
+ * and the conditions under which they are required.
+ *
+ * @param config The configuration of the environment
+ * @param options The options for the schema
+ * @returns The JSON Schema document
+ */
+export function toJsonSchema(
+  config: EnvironmentConfig,
+  options: JsonSchemaOptions = {},
+): JsonSchema {
+  const { additionalProperties = true, prefix, title } = options;
+  const entries = flattenConfig(config, prefix);
+  const paths = new Map(entries.map((entry) => [entry.path, entry]));
+  const conditions: JsonSchema[] = [];
+  const properties: { [name: string]: JsonSchema } = {};
+  const required: string[] = [];
+
+  for (const { config: cfg, name } of entries) {
+    const schema = describeVariable(cfg);
+
+    if (cfg.description !== undefined) {
+      schema.description = cfg.description;
+    }
+
+    if (cfg.deprecated !== undefined && cfg.deprecated !== false) {
+      schema.deprecated = true;
+    }
+
+    if (cfg.example !== undefined) {
+      schema.examples = [cfg.example];
+    }
+
+    if (cfg.default !== undefined) {
+      const value = ['boolean', 'number', 'string'].includes(typeof cfg.default)
+        ? cfg.default
+        : formatRaw(cfg.default, cfg);
+
+      if (value !== undefined && cfg.sensitive !== true) {
+        schema.default = value;
+      }
+    } else if (cfg.requiredWhen !== undefined) {
+      conditions.push({
+        if: describeCondition(
+          cfg.requiredWhen,
+          paths.get(cfg.requiredWhen.key),
+        ),
+        then: { required: [name] },
+      });
+    } else {
+      required.push(name);
+    }
+
+    properties[name] = schema;
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    additionalProperties,
+    ...(conditions.length === 0 ? {} : { allOf: conditions }),
+    properties,
+    required,
+    ...(title === undefined ? {} : { title }),
+    type: 'object',
+  };
+}
+
+/**
+ * Describe the values of a boolean variable, which are booleans or strings
+ * that are one of its spellings once lowercased, as they are parsed
+ *
+ * @param booleans The boolean values
+ * @param spellings The spellings of the values
+ * @returns The schema of the values
+ */
+function describeBooleanValues(
+  booleans: boolean[],
+  spellings: string[],
+): JsonSchema {
+  // Spellings with uppercase letters never match a lowercased value
+  const alternatives = spellings
+    .filter((spelling) => spelling === spelling.toLowerCase())
+    .map((spelling) =>
+      [...spelling]
+        .map((char) =>
+          char === char.toUpperCase()
+            ? char.replace(/[$()*+.?[\\\]^{|}-]/g, '\\$&')
+            : `[${char.toUpperCase()}${char}]`,
+        )
+        .join(''),
+    );
+
+  return {
+    anyOf: [
+      { enum: booleans },
+      ...(alternatives.length === 0
+        ? []
+        : [{ pattern: `^(?:${alternatives.join('|')})$`, type: 'string' }]),
+    ],
+  };
+}
+
+/**
+ * Describe the condition under which a variable is required, as it is checked
+ * against the parsed value of the other variable. When the default of the
+ * other variable satisfies the condition, it also holds if the other variable
+ * is unset.
+ *
+ * @param condition The condition of the variable
+ * @param other The variable the condition refers to, if it is in the configuration
+ * @returns The schema matching the objects the condition holds for
+ */
+function describeCondition(
+  condition: EnvironmentVariableCondition,
+  other: EnvironmentVariableEntry | undefined,
+): JsonSchema {
+  const name = other?.name ?? condition.key;
+  const present = {
+    properties: { [name]: describeConditionValue(condition, other?.config) },
+    required: [name],
+  };
+
+  if (
+    other?.config.default === undefined ||
+    !conditionHolds(condition, other.config.default)
+  ) {
+    return present;
+  }
+
+  return { anyOf: [present, { not: { required: [name] } }] };
+}
+
+/**
+ * Describe the raw values of a variable that parse to a value satisfying a
+ * condition
+ *
+ * @param condition The condition to describe
+ * @param cfg The configuration of the variable the condition refers to, if any
+ * @returns The schema of the values the condition holds for
+ */
+function describeConditionValue(
+  { equals, oneOf }: EnvironmentVariableCondition,
+  cfg: EnvironmentVariableConfig | undefined,
+): JsonSchema {
+  const expected = oneOf ?? (equals === undefined ? undefined : [equals]);
+
+  if (cfg?.type === EnvironmentVariableType.Boolean) {
+    // Without a value to compare with, the condition holds if the value is true
+    const holdsIfTrue = expected === undefined || expected.includes(true);
+    const holdsIfFalse = expected?.includes(false) === true;
+
+    return describeBooleanValues(
+      [...(holdsIfTrue ? [true] : []), ...(holdsIfFalse ? [false] : [])],
+      [
+        ...(holdsIfTrue
+          ? (cfg.validTrueValues ?? DEFAULT_VALID_TRUE_VALUES)
+          : []),
+        ...(holdsIfFalse
+          ? (cfg.validFalseValues ?? DEFAULT_VALID_FALSE_VALUES)
+          : []),
+      ],
+    );
+  }
+
+  if (expected === undefined) {
+    // The falsy values a variable may parse to
+    return { not: { enum: [0, ''] } };
+  }
+
+  return expected.length === 1 ? { const: expected[0] } : { enum: expected };
+}
+
+/**
+ * Describe the type of an environment variable and its constraints
+ *
+ * @param cfg The configuration of the environment variable
+ * @returns The schema of the environment variable
+ */
+function describeVariable(cfg: EnvironmentVariableConfig): JsonSchema {
+  switch (cfg.type) {
+    case EnvironmentVariableType.String:
+      // Without a pattern, values that are empty or only whitespace are rejected
+      return cfg.pattern !== undefined
+        ? { pattern: new RegExp(cfg.pattern).source, type: 'string' }
+        : {
+            type: 'string',
+            ...(cfg.shouldAllowEmpty === true ? {} : { pattern: '\\S' }),
+          };
+
+    case EnvironmentVariableType.Number:
+      return {
+        ...(cfg.max === undefined ? {} : { maximum: cfg.max }),
+        ...(cfg.min === undefined ? {} : { minimum: cfg.min }),
+        type: cfg.format === 'integer' ? 'integer' : 'number',
+      };
+
+    case EnvironmentVariableType.Boolean:
+      return describeBooleanValues(
+        [true, false],
+        [
+          ...(cfg.validTrueValues ?? DEFAULT_VALID_TRUE_VALUES),
+          ...(cfg.validFalseValues ?? DEFAULT_VALID_FALSE_VALUES),
+        ],
+      );
+
+    case EnvironmentVariableType.Enum:
+      return {
+        enum: listEnumValues(cfg.enum),
+      };
+
+    // Bare numbers are read in the unit of the variable
+    case EnvironmentVariableType.Duration:
+      return { type: ['number', 'string'] };
+
+    case EnvironmentVariableType.Bytes:
+      return { type: ['integer', 'string'] };
+
+    case EnvironmentVariableType.Json:
+      return { contentMediaType: 'application/json', type: 'string' };
+
+    case EnvironmentVariableType.Url:
+      return { format: 'uri', type: 'string' };
+
+    case EnvironmentVariableType.Port:
+      return { maximum: MAX_PORT, minimum: 1, type: 'integer' };
+
+    case EnvironmentVariableType.Cidr:
+    case EnvironmentVariableType.Host:
+    case EnvironmentVariableType.HostPort:
+    case EnvironmentVariableType.List:
+      return { type: 'string' };
+  }
+
+  // Custom variables may be parsed from anything
+  return {};
+}
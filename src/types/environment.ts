@@ -3,6 +3,9 @@
  * @author Rowan Gudmundsson
  * @since 1.0.0
  */
+import type { Result } from '@ellefe/ts-core';
+
+import type { EnvironmentError } from '../error';
 import type {
   EnvironmentVariableConfig,
   InferEnvironmentVariableType,
@@ -12,12 +15,291 @@ import type {
  * The configuration for an environment
  */
 export type EnvironmentConfig<Vars extends string = string> = {
-  [K in Vars]?: EnvironmentVariableConfig;
+  [K in Vars]?: EnvironmentGroupConfig | EnvironmentVariableConfig;
 };
 
+/**
+ * Options for creating an environment from files
+ */
+export interface EnvironmentFilesOptions<
+  Config extends EnvironmentConfig = EnvironmentConfig,
+> extends EnvironmentOptions<Config> {
+  /**
+   * The directory to resolve relative file paths from
+   *
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Which source wins when a variable is defined both in a file and in the store.
+   * Files are always applied in order, so later files override earlier ones.
+   *
+   * @default 'environment'
+   */
+  precedence?: 'environment' | 'files';
+
+  /**
+   * The store to merge the file values with
+   *
+   * @default process.env
+   */
+  store?: EnvironmentStore;
+}
+
+/**
+ * The configuration for a group of environment variables sharing a prefix
+ */
+export interface EnvironmentGroupConfig<
+  C extends EnvironmentConfig = EnvironmentConfig,
+> {
+  /** The prefix added to the names of the variables in the group */
+  prefix: string;
+
+  /**
+   * The variables in the group. Their keys are converted to upper snake case
+   * to get their names (e.g. `poolMax` becomes `POOL_MAX`).
+   */
+  vars: C;
+}
+
+/**
+ * The dotted paths of the variables of an environment (e.g. `'db.port'`)
+ */
+export type EnvironmentKey<T extends EnvironmentConfig> = {
+  [K in keyof T & string]: T[K] extends EnvironmentGroupConfig<
+    infer C extends EnvironmentConfig
+  >
+    ? `${K}.${EnvironmentKey<C>}`
+    : K;
+}[keyof T & string];
+
+/**
+ * Options for an environment
+ */
+export interface EnvironmentOptions<
+  Config extends EnvironmentConfig = EnvironmentConfig,
+> {
+  /**
+   * Whether to cache the parsed value of each variable until its raw value
+   * changes or it is overwritten with `set()`, `unset()` or `withVars()`.
+   * Only valid primitive values are cached, so errors and objects (e.g. URLs,
+   * lists and JSON values) are parsed on every read and never shared.
+   * Custom parsers and validators must be pure for cached values to be correct.
+   * The raw value is still read on every read to notice changes, so with
+   * `readSecretFiles` or `interpolate`, secret files are read and references
+   * are expanded each time and only the parsing is skipped.
+   *
+   * @default false
+   */
+  cache?: boolean;
+
+  /**
+   * Whether the environment starts frozen, as if `freeze()` had been called
+   *
+   * @default false
+   */
+  frozen?: boolean;
+
+  /**
+   * Format the messages of errors for values that could not be parsed, e.g. to
+   * localise or reword them. The error has its reason, details and default
+   * message set. Messages of sensitive variables are still redacted.
+   *
+   * @param error The error to format the message of
+   * @returns The message of the error
+   */
+  formatMessage?: (error: EnvironmentError) => string;
+
+  /**
+   * Whether to expand references to other variables in raw values before parsing.
+   * Supports `${VAR}`, `${VAR:-fallback}` and `$$` as an escaped `$`.
+   *
+   * @default false
+   */
+  interpolate?: boolean;
+
+  /**
+   * Whether `withVars()` and `withVarsAsync()` make their variables visible only
+   * within the async context of their function, using `AsyncLocalStorage`, instead
+   * of changing the store. Variables set with `set()` within the function are
+   * also only visible within it, and listeners are not notified of them.
+   *
+   * @default false
+   */
+  isolateOverrides?: boolean;
+
+  /**
+   * Called the first time a deprecated alias of an environment variable is used.
+   * By default, a `DeprecationWarning` is emitted with `process.emitWarning`.
+   *
+   * @param alias The alias in use
+   * @param name The name of the environment variable
+   */
+  onDeprecatedAlias?: (alias: string, name: string) => void;
+
+  /**
+   * A prefix added to the names of all the variables in the environment
+   *
+   * @default ''
+   */
+  prefix?: string;
+
+  /**
+   * Whether to read the value of a variable from the file named by `KEY_FILE`
+   * when `KEY` is not set, following the Docker and Kubernetes secrets convention.
+   * The contents of the file are trimmed and are not interpolated.
+   * Setting both `KEY` and `KEY_FILE` is an error.
+   *
+   * @default false
+   */
+  readSecretFiles?: boolean;
+
+  /**
+   * Rules spanning several variables, checked against the typed values of the
+   * environment by `snapshot()` and `validate()`. A rule is only checked when
+   * all of the variables it involves are valid.
+   */
+  rules?: Array<EnvironmentRule<Config>>;
+
+  /**
+   * Whether to copy the store at construction, so that later changes to it
+   * (e.g. to `process.env` by other libraries) do not affect the environment
+   *
+   * @default false
+   */
+  snapshotStore?: boolean;
+
+  /**
+   * The source the store is read from again by `reload()`.
+   * Environments created with `fromFiles()` reload from their files by default.
+   */
+  source?: EnvironmentSource;
+}
+
+/**
+ * A rule spanning several variables of an environment (e.g. `POOL_MIN <= POOL_MAX`)
+ */
+export interface EnvironmentRule<
+  Config extends EnvironmentConfig = EnvironmentConfig,
+> {
+  /**
+   * Check the rule against the values of the environment
+   *
+   * @param values The values of the environment
+   * @returns Whether the rule is satisfied
+   */
+  check: (values: InferEnvironmentType<Config>) => boolean;
+
+  /** The dotted paths of the variables the rule involves */
+  keys: Array<EnvironmentKey<Config>>;
+
+  /** The message describing the rule when it is not satisfied */
+  message: string;
+}
+
+/**
+ * A source the store of an environment can be read from again
+ */
+export interface EnvironmentSource {
+  /** The absolute paths of the files the source reads, watched by `watch()` */
+  files?: string[];
+
+  /**
+   * Read the store from the source
+   *
+   * @returns A result with the store, or an error if it could not be read
+   */
+  load: () => Result<EnvironmentStore, EnvironmentError>;
+}
+
+/**
+ * A store of raw environment variable values
+ */
+export type EnvironmentStore = { [key: string]: string | undefined };
+
+/**
+ * A variable of an environment configuration with its resolved name
+ */
+export interface EnvironmentVariableEntry {
+  /** The configuration of the variable */
+  config: EnvironmentVariableConfig;
+
+  /** The name of the variable in the store, including prefixes */
+  name: string;
+
+  /** The dotted path of the variable in the configuration */
+  path: string;
+}
+
+/**
+ * Options for watching the source of an environment
+ */
+export interface EnvironmentWatchOptions {
+  /**
+   * Whether to reload when one of the files of the source changes
+   *
+   * @default true
+   */
+  files?: boolean;
+
+  /**
+   * Called when a reload fails, in which case the environment is left unchanged.
+   * The error is an `EnvironmentValidationError` if the new values are invalid,
+   * or the error thrown while reloading (e.g. by the source or a listener).
+   * By default, a warning is emitted with `process.emitWarning`.
+   *
+   * @param error The error that made the reload fail
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * The signal to reload on, or false to not reload on a signal
+   *
+   * @default 'SIGHUP'
+   */
+  signal?: NodeJS.Signals | false;
+}
+
 /**
  * The inferred type of an environment
  */
 export type InferEnvironmentType<T extends EnvironmentConfig> = {
-  [K in keyof T]: InferEnvironmentVariableType<T[K]>;
+  [K in keyof T]: T[K] extends EnvironmentGroupConfig<
+    infer C extends EnvironmentConfig
+  >
+    ? InferEnvironmentType<C>
+    : InferEnvironmentVariableType<T[K]>;
+};
+
+/**
+ * The inferred type of the variable at a dotted path of an environment
+ */
+export type InferEnvironmentValue<
+  T extends EnvironmentConfig,
+  K extends string,
+> = K extends keyof T
+  ? InferEnvironmentVariableType<T[K]>
+  : K extends `${infer G}.${infer R}`
+    ? G extends keyof T
+      ? T[G] extends EnvironmentGroupConfig<infer C extends EnvironmentConfig>
+        ? InferEnvironmentValue<C, R>
+        : never
+      : never
+    : never;
+
+/**
+ * The value shown in place of a sensitive environment variable value
+ */
+export type Redacted = '[REDACTED]';
+
+/**
+ * The inferred type of an environment, where sensitive values may be redacted
+ */
+export type RedactedEnvironmentType<T extends EnvironmentConfig> = {
+  [K in keyof T]: T[K] extends EnvironmentGroupConfig<
+    infer C extends EnvironmentConfig
+  >
+    ? RedactedEnvironmentType<C>
+    : InferEnvironmentVariableType<T[K]> | Redacted;
 };
@@ -8,7 +8,104 @@
  * Environment error types
  */
 export enum EnvironmentErrorType {
+  ConstraintError = 'constraint-error',
+  FileParseError = 'file-parse-error',
+  FrozenError = 'frozen-error',
+  VariableConflictError = 'conflict-error',
+  VariableFileError = 'file-error',
+  VariableInterpolationError = 'interpolation-error',
   VariableNotFoundError = 'not-found-error',
   VariableParseError = 'parse-error',
   VariableUnknownError = 'unknown-error',
 }
+
+/**
+ * Reasons an environment variable could not be parsed
+ */
+export enum EnvironmentErrorReason {
+  AboveMax = 'above-max',
+  AmbiguousUnit = 'ambiguous-unit',
+  BelowMin = 'below-min',
+  CredentialsNotAllowed = 'credentials-not-allowed',
+  Custom = 'custom',
+  DuplicateItem = 'duplicate-item',
+  Empty = 'empty',
+  FamilyNotAllowed = 'family-not-allowed',
+  HostBitsSet = 'host-bits-set',
+  InvalidJson = 'invalid-json',
+  InvalidPrefixLength = 'invalid-prefix-length',
+  MissingHost = 'missing-host',
+  MissingPort = 'missing-port',
+  MissingProperty = 'missing-property',
+  NotABoolean = 'not-a-boolean',
+  NotAByteSize = 'not-a-byte-size',
+  NotACidr = 'not-a-cidr',
+  NotADuration = 'not-a-duration',
+  NotAHost = 'not-a-host',
+  NotANumber = 'not-a-number',
+  NotAPort = 'not-a-port',
+  NotAString = 'not-a-string',
+  NotAUrl = 'not-a-url',
+  NotAWholeNumberOfBytes = 'not-a-whole-number-of-bytes',
+  NotAnInteger = 'not-an-integer',
+  NotAnIpAddress = 'not-an-ip-address',
+  NotAnObject = 'not-an-object',
+  NotInEnum = 'not-in-enum',
+  PatternMismatch = 'pattern-mismatch',
+  ProtocolNotAllowed = 'protocol-not-allowed',
+  TooFewItems = 'too-few-items',
+  TooManyItems = 'too-many-items',
+  UnbracketedIpv6 = 'unbracketed-ipv6',
+  UnknownUnit = 'unknown-unit',
+}
+
+/**
+ * Details of why an environment variable could not be parsed. Which details
+ * are set depends on the reason.
+ */
+export interface EnvironmentErrorDetails {
+  /** What was found instead of what is allowed (e.g. the protocol of a URL) */
+  actual?: number | string;
+
+  /** The values that are allowed (e.g. the values of an enum) */
+  allowed?: readonly unknown[];
+
+  /** The allowed value closest to the raw value, if any is close */
+  closest?: unknown;
+
+  /** The index of the list item that is invalid */
+  index?: number;
+
+  /** The maximum that was exceeded, in milliseconds for durations */
+  max?: bigint | number;
+
+  /** The minimum that was not reached, in milliseconds for durations */
+  min?: bigint | number;
+
+  /** The path of the JSON property that is invalid */
+  path?: string;
+
+  /** The pattern that was not matched */
+  pattern?: string;
+
+  /** The position in the raw value where parsing failed */
+  position?: number;
+
+  /** The unit that is ambiguous or unknown */
+  unit?: string;
+}
+
+/**
+ * A reason an environment variable could not be parsed, with its details and
+ * a default message
+ */
+export interface EnvironmentParseFailure {
+  /** The details of the failure */
+  details: EnvironmentErrorDetails;
+
+  /** The default message describing the failure */
+  message: string;
+
+  /** The reason for the failure */
+  reason: EnvironmentErrorReason;
+}
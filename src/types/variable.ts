@@ -3,7 +3,7 @@
  * @author Rowan Gudmundsson
  * @since 1.0.0
  */
-import type { Duration, DurationUnit } from '@ellefe/ts-core';
+import type { Duration, DurationUnit, Result } from '@ellefe/ts-core';
 import type { EnumLike, EnumValue } from '@ellefe/ts-core';
 
 /**
@@ -15,6 +15,15 @@ export enum EnvironmentVariableType {
   Boolean = 'boolean',
   Enum = 'enum',
   Duration = 'duration',
+  Custom = 'custom',
+  List = 'list',
+  Json = 'json',
+  Url = 'url',
+  Bytes = 'bytes',
+  Port = 'port',
+  Host = 'host',
+  HostPort = 'host-port',
+  Cidr = 'cidr',
 }
 
 /**
@@ -46,15 +55,120 @@ export interface BooleanEnvironmentVariableConfig
   validTrueValues?: string[];
 }
 
+/**
+ * Config for a byte size environment variable (e.g. `25MB` or `2GiB`).
+ * The value is a number of bytes, or a bigint if it is larger than
+ * `Number.MAX_SAFE_INTEGER`.
+ */
+export interface BytesEnvironmentVariableConfig
+  extends EnvironmentVariableBase<bigint | number> {
+  /** The maximum number of bytes */
+  max?: bigint | number;
+
+  /** The minimum number of bytes */
+  min?: bigint | number;
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Bytes;
+
+  /**
+   * The unit of values without a suffix
+   *
+   * @default 'B'
+   */
+  unit?: BytesUnit;
+}
+
+/**
+ * A unit of byte sizes, either SI (powers of 1000) or IEC (powers of 1024)
+ */
+export type BytesUnit =
+  | 'B'
+  | 'EB'
+  | 'EiB'
+  | 'GB'
+  | 'GiB'
+  | 'KiB'
+  | 'MB'
+  | 'MiB'
+  | 'PB'
+  | 'PiB'
+  | 'TB'
+  | 'TiB'
+  | 'kB';
+
+/**
+ * Config for a CIDR environment variable (e.g. `10.0.0.0/8`)
+ */
+export interface CidrEnvironmentVariableConfig
+  extends EnvironmentVariableBase<CidrNetwork> {
+  /** The IP version the network must use. If not provided, both are allowed. */
+  family?: 4 | 6;
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Cidr;
+}
+
+/**
+ * A network parsed from CIDR notation
+ */
+export interface CidrNetwork {
+  /** The address of the network */
+  address: string;
+
+  /** The IP version of the network */
+  family: 4 | 6;
+
+  /** The number of leading bits of the address that identify the network */
+  prefixLength: number;
+}
+
+/**
+ * An environment variable config that is only required when its condition holds.
+ * Factories return this type when `requiredWhen` is given, so that the inferred
+ * type of the variable includes `undefined`.
+ */
+export type ConditionalEnvironmentVariableConfig<
+  T extends EnvironmentVariableConfig,
+  C extends EnvironmentVariableCondition | undefined,
+> =
+  NoInfer<C> extends EnvironmentVariableCondition
+    ? T & { requiredWhen: NoInfer<C> }
+    : T;
+
+/**
+ * Config for an environment variable parsed by a user-supplied parser
+ */
+export interface CustomEnvironmentVariableConfig<T>
+  extends EnvironmentVariableBase<T> {
+  /**
+   * Parse the raw value of the environment variable.
+   * An error result should describe why the value is invalid.
+   */
+  parse: (raw: string) => Result<T, string>;
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Custom;
+}
+
 /**
  * Config for a duration environment variable
  */
 export interface DurationEnvironmentVariableConfig
   extends EnvironmentVariableBase<Duration> {
+  /** The maximum duration */
+  max?: Duration;
+
+  /** The minimum duration */
+  min?: Duration;
+
   /** The type of the environment variable */
   type: EnvironmentVariableType.Duration;
 
-  /** The unit to interpret the duration as */
+  /**
+   * The unit to interpret bare numbers as. Values may also be given with units
+   * (e.g. `30s`, `1m30s`) or as ISO 8601 durations (e.g. `PT5M`).
+   */
   unit: DurationUnit;
 }
 
@@ -74,28 +188,194 @@ export interface EnumEnvironmentVariableConfig<T extends EnumLike>
   type: EnvironmentVariableType.Enum;
 }
 
+/**
+ * A condition on the value of another environment variable in the same environment.
+ * If neither `equals` nor `oneOf` is provided, the condition holds when the
+ * other variable has a truthy value.
+ */
+export interface EnvironmentVariableCondition {
+  /** The value the other environment variable must be equal to */
+  equals?: unknown;
+
+  /**
+   * The dotted path of the other environment variable (e.g. `'mail.driver'`),
+   * which must be defined in the configuration of the environment
+   */
+  key: string;
+
+  /** The values the other environment variable must be one of */
+  oneOf?: unknown[];
+}
+
 /**
  * The configuration for an environment variable
  */
 export type EnvironmentVariableConfig =
   | BooleanEnvironmentVariableConfig
+  | BytesEnvironmentVariableConfig
+  | CidrEnvironmentVariableConfig
+  | CustomEnvironmentVariableConfig<any>
   | DurationEnvironmentVariableConfig
   | EnumEnvironmentVariableConfig<any>
+  | HostEnvironmentVariableConfig
+  | HostPortEnvironmentVariableConfig
+  | JsonEnvironmentVariableConfig<any>
+  | ListEnvironmentVariableConfig<any>
   | NumberEnvironmentVariableConfig
-  | StringEnvironmentVariableConfig;
+  | PortEnvironmentVariableConfig
+  | StringEnvironmentVariableConfig
+  | UrlEnvironmentVariableConfig;
+
+/**
+ * The options accepted by the factory of an environment variable
+ */
+export type EnvironmentVariableOptions<
+  T extends EnvironmentVariableConfig,
+  K extends keyof T,
+  C extends EnvironmentVariableCondition | undefined,
+> = Omit<T, K | 'requiredWhen'> & { requiredWhen?: C };
+
+/**
+ * Config for a host environment variable (a hostname, IPv4 or IPv6 address)
+ */
+export interface HostEnvironmentVariableConfig
+  extends EnvironmentVariableBase<string> {
+  /** The kinds of host allowed. If not provided, any kind is allowed. */
+  families?: HostFamily[];
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Host;
+}
+
+/**
+ * A kind of host
+ */
+export type HostFamily = 'hostname' | 'ipv4' | 'ipv6';
+
+/**
+ * A host and a port
+ */
+export interface HostPort {
+  /** The host, without brackets around IPv6 addresses */
+  host: string;
+
+  /** The port */
+  port: number;
+}
+
+/**
+ * Config for a `host:port` environment variable. IPv6 addresses must be in
+ * brackets when a port is given (e.g. `[::1]:8080`).
+ */
+export interface HostPortEnvironmentVariableConfig
+  extends EnvironmentVariableBase<HostPort> {
+  /** The port used when the value does not have one */
+  defaultPort?: number;
+
+  /** The kinds of host allowed. If not provided, any kind is allowed. */
+  families?: HostFamily[];
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.HostPort;
+}
 
 /**
- * Get the type of the value of an environment variable config
+ * Get the type of the value of an environment variable config.
+ * Variables that are only required when a condition holds may be undefined.
  */
 export type InferEnvironmentVariableType<T> =
+  T extends EnvironmentVariableConfig
+    ? T extends { requiredWhen: EnvironmentVariableCondition }
+      ? InferRequiredEnvironmentVariableType<T> | undefined
+      : InferRequiredEnvironmentVariableType<T>
+    : never;
+
+/**
+ * Get the type of the value described by a JSON shape
+ */
+export type InferJsonShapeType<S extends JsonShape> = {
+  [K in keyof S]: InferEnvironmentVariableType<S[K]>;
+};
+
+/**
+ * Get the type of the value of an environment variable config when it is set
+ */
+export type InferRequiredEnvironmentVariableType<T> =
   T extends EnvironmentVariableConfig
     ? T extends EnumEnvironmentVariableConfig<infer E>
       ? EnumValue<E>
-      : T['type'] extends keyof KnownEnvironmentVariableTypeMap
-        ? KnownEnvironmentVariableTypeMap[T['type']]
-        : never
+      : T extends CustomEnvironmentVariableConfig<infer C>
+        ? C
+        : T extends ListEnvironmentVariableConfig<infer I>
+          ? Array<InferEnvironmentVariableType<I>>
+          : T extends JsonEnvironmentVariableConfig<infer J>
+            ? J
+            : T['type'] extends keyof KnownEnvironmentVariableTypeMap
+              ? KnownEnvironmentVariableTypeMap[T['type']]
+              : never
     : never;
 
+/**
+ * Config for a JSON environment variable
+ */
+export interface JsonEnvironmentVariableConfig<T = unknown>
+  extends EnvironmentVariableBase<T> {
+  /**
+   * The shape the parsed value must have. Each property is checked against its
+   * config: strings, numbers and booleans must have the matching JSON type, lists
+   * may be JSON arrays and nested objects are described with JSON configs.
+   * Properties not in the shape are kept as they are.
+   */
+  shape?: JsonShape;
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Json;
+
+  /**
+   * Validate the parsed value, after it has been checked against the shape.
+   * An error result should describe why the value is invalid.
+   */
+  validate?: (value: unknown) => Result<T, string>;
+}
+
+/**
+ * The shape of a JSON environment variable, described with environment variable configs
+ */
+export type JsonShape = { [key: string]: EnvironmentVariableConfig };
+
+/**
+ * Config for a list environment variable, where each item is parsed with its own config
+ */
+export interface ListEnvironmentVariableConfig<
+  T extends EnvironmentVariableConfig,
+> extends EnvironmentVariableBase<Array<InferEnvironmentVariableType<T>>> {
+  /** The configuration used to parse each item of the list */
+  items: T;
+
+  /** The maximum number of items in the list */
+  maxItems?: number;
+
+  /** The minimum number of items in the list */
+  minItems?: number;
+
+  /**
+   * The separator between items. Whitespace around each item is trimmed.
+   *
+   * @default ','
+   */
+  separator?: string;
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.List;
+
+  /**
+   * Whether the items in the list must be unique
+   *
+   * @default false
+   */
+  unique?: boolean;
+}
+
 /**
  * Config for a number environment variable
  */
@@ -114,6 +394,15 @@ export interface NumberEnvironmentVariableConfig
   type: EnvironmentVariableType.Number;
 }
 
+/**
+ * Config for a port environment variable, from 1 to 65535
+ */
+export interface PortEnvironmentVariableConfig
+  extends EnvironmentVariableBase<number> {
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Port;
+}
+
 /**
  * Config for a string environment variable
  */
@@ -133,14 +422,94 @@ export interface StringEnvironmentVariableConfig
   type: EnvironmentVariableType.String;
 }
 
+/**
+ * Config for a URL environment variable
+ */
+export interface UrlEnvironmentVariableConfig
+  extends EnvironmentVariableBase<URL> {
+  /**
+   * Whether the URL may contain a username or password
+   *
+   * @default false
+   */
+  allowCredentials?: boolean;
+
+  /**
+   * The protocols the URL may use, without the trailing colon (e.g. `'https'`).
+   * If not provided, any protocol is allowed.
+   */
+  protocols?: string[];
+
+  /**
+   * Whether the URL must contain a port. Default ports for the protocol
+   * (e.g. 443 for https) are dropped when parsing, so they do not count.
+   *
+   * @default false
+   */
+  requirePort?: boolean;
+
+  /**
+   * Whether to remove trailing slashes from the path of the URL
+   *
+   * @default false
+   */
+  stripTrailingSlash?: boolean;
+
+  /** The type of the environment variable */
+  type: EnvironmentVariableType.Url;
+}
+
 interface EnvironmentVariableBase<T> {
+  /**
+   * Deprecated names the environment variable may also be set under, e.g. after
+   * a rename. They are looked up as they are, without any prefix. Using one of
+   * them reports a deprecation, and setting several of them to different values
+   * is an error.
+   */
+  aliases?: string[];
+
   default?: T;
+
+  /**
+   * Whether the environment variable is deprecated, or a message saying what
+   * to use instead. Shown in generated `.env.example` files.
+   */
+  deprecated?: boolean | string;
+
+  /** A description of the environment variable, shown in generated `.env.example` files */
+  description?: string;
+
+  /** An example raw value of the environment variable, used in generated `.env.example` files */
+  example?: string;
+
+  /**
+   * Only require the environment variable when a condition on another variable
+   * holds. When the condition does not hold and the variable is not set, its
+   * value is `undefined` instead of an error.
+   */
+  requiredWhen?: EnvironmentVariableCondition;
+
+  /**
+   * Whether the value is sensitive (e.g. a password or token).
+   * Sensitive values are redacted from errors, redacted snapshots and
+   * serialized output, but are still returned as is when read.
+   *
+   * @default false
+   */
+  sensitive?: boolean;
+
   type: EnvironmentVariableType;
 }
 
 interface KnownEnvironmentVariableTypeMap {
   [EnvironmentVariableType.Boolean]: boolean;
+  [EnvironmentVariableType.Bytes]: bigint | number;
+  [EnvironmentVariableType.Cidr]: CidrNetwork;
   [EnvironmentVariableType.Duration]: Duration;
+  [EnvironmentVariableType.Host]: string;
+  [EnvironmentVariableType.HostPort]: HostPort;
   [EnvironmentVariableType.Number]: number;
+  [EnvironmentVariableType.Port]: number;
   [EnvironmentVariableType.String]: string;
+  [EnvironmentVariableType.Url]: URL;
 }
@@ -7,11 +7,26 @@ import type { DurationUnit, EnumLike } from '@ellefe/ts-core';
 
 import {
   type BooleanEnvironmentVariableConfig,
+  type BytesEnvironmentVariableConfig,
+  type CidrEnvironmentVariableConfig,
+  type ConditionalEnvironmentVariableConfig,
+  type CustomEnvironmentVariableConfig,
   type DurationEnvironmentVariableConfig,
   type EnumEnvironmentVariableConfig,
+  type EnvironmentVariableCondition,
+  type EnvironmentVariableConfig,
+  type EnvironmentVariableOptions,
   EnvironmentVariableType,
+  type HostEnvironmentVariableConfig,
+  type HostPortEnvironmentVariableConfig,
+  type InferJsonShapeType,
+  type JsonEnvironmentVariableConfig,
+  type JsonShape,
+  type ListEnvironmentVariableConfig,
   type NumberEnvironmentVariableConfig,
+  type PortEnvironmentVariableConfig,
   type StringEnvironmentVariableConfig,
+  type UrlEnvironmentVariableConfig,
 } from './types';
 
 /**
@@ -20,13 +35,89 @@ import {
  * @param options The options for the environment variable
  * @returns The environment variable configuration
  */
-export function booleanVar(
-  options: Omit<BooleanEnvironmentVariableConfig, 'type'> = {},
-): BooleanEnvironmentVariableConfig {
+export function booleanVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    BooleanEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<BooleanEnvironmentVariableConfig, C> {
   return {
     type: EnvironmentVariableType.Boolean,
     ...options,
-  };
+  } as ConditionalEnvironmentVariableConfig<
+    BooleanEnvironmentVariableConfig,
+    C
+  >;
+}
+
+/**
+ * Create a byte size environment variable
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function bytesVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    BytesEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<BytesEnvironmentVariableConfig, C> {
+  return {
+    type: EnvironmentVariableType.Bytes,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<BytesEnvironmentVariableConfig, C>;
+}
+
+/**
+ * Create a CIDR network environment variable
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function cidrVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    CidrEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<CidrEnvironmentVariableConfig, C> {
+  return {
+    type: EnvironmentVariableType.Cidr,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<CidrEnvironmentVariableConfig, C>;
+}
+
+/**
+ * Create an environment variable parsed by a user-supplied parser
+ *
+ * @param options The options for the environment variable, including the parser
+ * @returns The environment variable configuration
+ */
+export function customVar<
+  T,
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    CustomEnvironmentVariableConfig<T>,
+    'type',
+    C
+  >,
+): ConditionalEnvironmentVariableConfig<CustomEnvironmentVariableConfig<T>, C> {
+  return {
+    type: EnvironmentVariableType.Custom,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<
+    CustomEnvironmentVariableConfig<T>,
+    C
+  >;
 }
 
 /**
@@ -36,15 +127,24 @@ export function booleanVar(
  * @param options The options for the environment variable
  * @returns The environment variable configuration
  */
-export function durationVar(
+export function durationVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
   unit: DurationUnit,
-  options: Omit<DurationEnvironmentVariableConfig, 'type' | 'unit'> = {},
-): DurationEnvironmentVariableConfig {
+  options: EnvironmentVariableOptions<
+    DurationEnvironmentVariableConfig,
+    'type' | 'unit',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<DurationEnvironmentVariableConfig, C> {
   return {
     type: EnvironmentVariableType.Duration,
     unit,
     ...options,
-  };
+  } as ConditionalEnvironmentVariableConfig<
+    DurationEnvironmentVariableConfig,
+    C
+  >;
 }
 
 /**
@@ -54,30 +154,186 @@ export function durationVar(
  * @param options The options for the environment variable
  * @returns The environment variable configuration
  */
-export function enumVar<T extends EnumLike>(
+export function enumVar<
+  T extends EnumLike,
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
   enumType: T,
-  options: Omit<EnumEnvironmentVariableConfig<T>, 'enum' | 'type'> = {},
-): EnumEnvironmentVariableConfig<T> {
+  options: EnvironmentVariableOptions<
+    EnumEnvironmentVariableConfig<T>,
+    'enum' | 'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<EnumEnvironmentVariableConfig<T>, C> {
   return {
     enum: enumType,
     type: EnvironmentVariableType.Enum,
     ...options,
+  } as ConditionalEnvironmentVariableConfig<
+    EnumEnvironmentVariableConfig<T>,
+    C
+  >;
+}
+
+/**
+ * Create a `host:port` environment variable
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function hostPortVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    HostPortEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<HostPortEnvironmentVariableConfig, C> {
+  return {
+    type: EnvironmentVariableType.HostPort,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<
+    HostPortEnvironmentVariableConfig,
+    C
+  >;
+}
+
+/**
+ * Create a host (hostname, IPv4 or IPv6 address) environment variable
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function hostVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    HostEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<HostEnvironmentVariableConfig, C> {
+  return {
+    type: EnvironmentVariableType.Host,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<HostEnvironmentVariableConfig, C>;
+}
+
+/**
+ * Create a JSON environment variable checked against a shape
+ *
+ * @param options The options for the environment variable, including the shape
+ * @returns The environment variable configuration
+ */
+export function jsonVar<
+  S extends JsonShape,
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    JsonEnvironmentVariableConfig<InferJsonShapeType<S>>,
+    'shape' | 'type' | 'validate',
+    C
+  > & { shape: S },
+): ConditionalEnvironmentVariableConfig<
+  JsonEnvironmentVariableConfig<InferJsonShapeType<S>>,
+  C
+>;
+
+/**
+ * Create a JSON environment variable, optionally checked by a validator
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function jsonVar<
+  T = unknown,
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options?: EnvironmentVariableOptions<
+    JsonEnvironmentVariableConfig<T>,
+    'shape' | 'type',
+    C
+  >,
+): ConditionalEnvironmentVariableConfig<JsonEnvironmentVariableConfig<T>, C>;
+
+export function jsonVar(
+  options: Omit<JsonEnvironmentVariableConfig, 'type'> = {},
+): JsonEnvironmentVariableConfig {
+  return {
+    type: EnvironmentVariableType.Json,
+    ...options,
   };
 }
 
+/**
+ * Create a list environment variable
+ *
+ * @param items The configuration used to parse each item of the list
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function listVar<
+  T extends EnvironmentVariableConfig,
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  items: T,
+  options: EnvironmentVariableOptions<
+    ListEnvironmentVariableConfig<T>,
+    'items' | 'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<ListEnvironmentVariableConfig<T>, C> {
+  return {
+    items,
+    type: EnvironmentVariableType.List,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<
+    ListEnvironmentVariableConfig<T>,
+    C
+  >;
+}
+
 /**
  * Create a number environment variable
  *
  * @param options The options for the environment variable
  * @returns The environment variable configuration
  */
-export function numberVar(
-  options: Omit<NumberEnvironmentVariableConfig, 'type'> = {},
-): NumberEnvironmentVariableConfig {
+export function numberVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    NumberEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<NumberEnvironmentVariableConfig, C> {
   return {
     type: EnvironmentVariableType.Number,
     ...options,
-  };
+  } as ConditionalEnvironmentVariableConfig<NumberEnvironmentVariableConfig, C>;
+}
+
+/**
+ * Create a port environment variable
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function portVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    PortEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<PortEnvironmentVariableConfig, C> {
+  return {
+    type: EnvironmentVariableType.Port,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<PortEnvironmentVariableConfig, C>;
 }
 
 /**
@@ -86,11 +342,38 @@ export function numberVar(
  * @param options The options for the environment variable
  * @returns The environment variable configuration
  */
-export function stringVar(
-  options: Omit<StringEnvironmentVariableConfig, 'type'> = {},
-): StringEnvironmentVariableConfig {
+export function stringVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    StringEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<StringEnvironmentVariableConfig, C> {
   return {
     type: EnvironmentVariableType.String,
     ...options,
-  };
+  } as ConditionalEnvironmentVariableConfig<StringEnvironmentVariableConfig, C>;
+}
+
+/**
+ * Create a URL environment variable
+ *
+ * @param options The options for the environment variable
+ * @returns The environment variable configuration
+ */
+export function urlVar<
+  C extends EnvironmentVariableCondition | undefined = undefined,
+>(
+  options: EnvironmentVariableOptions<
+    UrlEnvironmentVariableConfig,
+    'type',
+    C
+  > = {},
+): ConditionalEnvironmentVariableConfig<UrlEnvironmentVariableConfig, C> {
+  return {
+    type: EnvironmentVariableType.Url,
+    ...options,
+  } as ConditionalEnvironmentVariableConfig<UrlEnvironmentVariableConfig, C>;
 }